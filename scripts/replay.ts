@@ -0,0 +1,112 @@
+import "reflect-metadata";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { pathToFileURL } from "url";
+import { CfxEmulator } from "../src/common/testing/emulator/emulator";
+
+// Usage: bun run replay <recording.jsonl> <module file>[#ExportName] [--fast] [--realtime]
+// Boots the server application with the modules exported by the file on the
+// CFX emulator and feeds the recording written through the
+// `eterna_record_events` convar back into it. Without an export name every
+// exported module is loaded.
+
+const usage =
+	"Usage: bun run replay <recording.jsonl> <module file>[#ExportName] [--fast] [--realtime]";
+
+const args = process.argv.slice(2);
+const [recordingPath, moduleArgument] = args.filter(
+	(arg) => !arg.startsWith("-")
+);
+const isFast = args.includes("--fast") || args.includes("-f");
+const isRealtime = args.includes("--realtime") || args.includes("-r");
+
+/**
+ * Imports the module file relative to the working directory and returns the
+ * named export or every exported module class
+ */
+async function loadModules(argument: string): Promise<Function[]> {
+	const [modulePath, exportName] = argument.split("#");
+	const exported = await import(pathToFileURL(resolve(modulePath)).href);
+	const { ModuleUtils } = await import("../src/common/utils/module.utils");
+	const isModule = (value: unknown) =>
+		typeof value === "function" && ModuleUtils.isModule(value);
+
+	const modules = exportName
+		? [exported[exportName]]
+		: Object.values(exported).filter(isModule);
+
+	for (const moduleClass of modules) {
+		if (!isModule(moduleClass)) {
+			throw new Error(`${exportName} of ${modulePath} is not a module`);
+		}
+	}
+
+	if (modules.length === 0) {
+		throw new Error(`${modulePath} does not export a module`);
+	}
+
+	return modules as Function[];
+}
+
+async function Replay() {
+	if (!recordingPath || !moduleArgument) {
+		console.error(usage);
+		process.exit(1);
+	}
+
+	// The natives have to exist before the framework is imported
+	const emulator = new CfxEmulator({ fakeTimers: true }).install("server");
+
+	const { Application } = await import("../src/common/app");
+	const { bindService, unloadGlobalContainer } =
+		await import("../src/common/global");
+	const { ChainMiddlewareEventServerFactory } =
+		await import("../src/common/middleware/Events/event.server.middleware");
+	const { ChainMiddlewareTickServerFactory } =
+		await import("../src/common/middleware/Tick/middleware.tick.server");
+	const { ServerProviderLoader } =
+		await import("../src/common/loader/Provider/provider.server.loader");
+	const { parseRecording } =
+		await import("../src/common/recording/event.recorder");
+	const { EventReplayer } =
+		await import("../src/common/recording/event.replayer");
+	const modules = await loadModules(moduleArgument);
+
+	try {
+		const entries = parseRecording(readFileSync(recordingPath, "utf8"));
+
+		await bindService("MiddlewareFactory", ChainMiddlewareEventServerFactory);
+		await bindService(
+			"MiddlewareTickFactory",
+			ChainMiddlewareTickServerFactory
+		);
+
+		const application = await Application.create(ServerProviderLoader, modules);
+
+		const result = await new EventReplayer(emulator).replay(entries, {
+			timing: isFast ? "fast" : "original",
+			realtime: isRealtime,
+		});
+
+		await application.stop();
+
+		console.log(
+			`Replayed ${result.replayed} entries, skipped ${result.skipped}, ${result.players.size} players`
+		);
+
+		if (emulator.errors.length > 0) {
+			console.error(
+				`${emulator.errors.length} handler errors during the replay`
+			);
+			process.exitCode = 1;
+		}
+	} finally {
+		unloadGlobalContainer();
+		emulator.uninstall();
+	}
+}
+
+Replay().catch((error) => {
+	console.error("Replay failed:", error);
+	process.exit(1);
+});
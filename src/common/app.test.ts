@@ -0,0 +1,156 @@
+import "reflect-metadata";
+import { afterAll, expect, test } from "bun:test";
+import { nextMacrotask } from "./testing/emulator/clock";
+import { CfxEmulator } from "./testing/emulator/emulator";
+
+// The app reads the side from the natives while it is imported
+const emulator = new CfxEmulator().install("server");
+
+const { Application, ApplicationState } = await import("./app");
+const { Module } = await import("./decorator/Module");
+const { Provider } = await import("./decorator/Provider");
+const { OnEvent } = await import("./decorator/Events/OnEvent");
+const {
+	bindService,
+	createGlobalContainer,
+	getGlobalContainer,
+	unloadGlobalContainer,
+	useGlobalContainer,
+} = await import("./global");
+const { ChainMiddlewareEventServerFactory } =
+	await import("./middleware/Events/event.server.middleware");
+const { ChainMiddlewareTickServerFactory } =
+	await import("./middleware/Tick/middleware.tick.server");
+const { ServerProviderLoader } =
+	await import("./loader/Provider/provider.server.loader");
+
+declare module "./events/EventMap" {
+	interface ServerEventMap {
+		"greeting:hello": [name: string];
+	}
+}
+
+const calls: string[] = [];
+let cleanupDelay = 0;
+
+@Provider()
+class GreetingProvider {
+	@OnEvent("greeting:hello")
+	hello(source: number, name: string) {
+		calls.push(`hello:${source}:${name}`);
+	}
+
+	@OnEvent("greeting:hello", { networked: false })
+	audit(name: string) {
+		calls.push(`audit:${name}`);
+	}
+}
+
+@Module({ providers: [GreetingProvider] })
+class GreetingModule {
+	name = "GreetingModule";
+
+	async initialize() {
+		calls.push("initialize");
+	}
+
+	async cleanup() {
+		calls.push("cleanup");
+		await new Promise((resolve) => setTimeout(resolve, cleanupDelay));
+		calls.push("cleaned");
+	}
+}
+
+afterAll(() => {
+	unloadGlobalContainer();
+	emulator.uninstall();
+});
+
+test("boots the application on the emulator and handles events", async () => {
+	await bindService("MiddlewareFactory", ChainMiddlewareEventServerFactory);
+	await bindService("MiddlewareTickFactory", ChainMiddlewareTickServerFactory);
+
+	const app = await Application.create(ServerProviderLoader, [GreetingModule], {
+		gracefulShutdownTimeout: 20,
+	});
+	expect(app.getState()).toBe(ApplicationState.RUNNING);
+	expect(calls.splice(0)).toEqual(["initialize"]);
+
+	const player = await emulator.connectPlayer({ name: "Alice" });
+	player.emitNet("greeting:hello", "Alice");
+	await emulator.flush();
+	await nextMacrotask();
+
+	// Clients reach the networked handler only
+	expect(calls.splice(0)).toEqual([`hello:${player.id}:Alice`]);
+
+	emulator.server.emit("greeting:hello", "local");
+	await nextMacrotask();
+
+	expect(calls.splice(0)).toEqual(["hello::local", "audit:local"]);
+
+	// The cleanup outlasts the shutdown timeout, the restart waits for it
+	cleanupDelay = 50;
+	await app.restart();
+	expect(app.getState()).toBe(ApplicationState.RUNNING);
+	expect(calls.splice(0)).toEqual(["cleanup", "cleaned", "initialize"]);
+
+	emulator.server.emit("greeting:hello", "restarted");
+	await nextMacrotask();
+	expect(calls.splice(0)).toEqual(["hello::restarted", "audit:restarted"]);
+
+	cleanupDelay = 0;
+	expect(await app.stop()).toBe(true);
+	expect(app.getState()).toBe(ApplicationState.STOPPED);
+	expect(emulator.server.getListenerCount("greeting:hello")).toBe(0);
+});
+
+test("a failed start leaves nothing behind for the next start", async () => {
+	const restoreContainer = useGlobalContainer(createGlobalContainer());
+	const listeners = emulator.server.getListenerCount();
+	let failing = true;
+	calls.length = 0;
+
+	@Provider()
+	class BootProvider {
+		@OnEvent("greeting:hello", { networked: false })
+		hello(name: string) {
+			calls.push(`boot:${name}`);
+		}
+
+		onApplicationBootstrap() {
+			if (failing) {
+				throw new Error("bootstrap failed");
+			}
+		}
+	}
+
+	@Module({ providers: [BootProvider] })
+	class BootModule {}
+
+	try {
+		await bindService("MiddlewareFactory", ChainMiddlewareEventServerFactory);
+		await bindService(
+			"MiddlewareTickFactory",
+			ChainMiddlewareTickServerFactory
+		);
+
+		await expect(
+			Application.create(ServerProviderLoader, [BootModule])
+		).rejects.toThrow("bootstrap failed");
+
+		const app = getGlobalContainer().get(Application);
+		expect(app.getState()).toBe(ApplicationState.STOPPED);
+		expect(emulator.server.getListenerCount()).toBe(listeners);
+
+		failing = false;
+		await app.start();
+		emulator.server.emit("greeting:hello", "again");
+		await nextMacrotask();
+		expect(calls.splice(0)).toEqual(["boot:again"]);
+
+		expect(await app.stop()).toBe(true);
+	} finally {
+		restoreContainer();
+	}
+});
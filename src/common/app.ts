@@ -1,12 +1,17 @@
 import { Inject, Injectable } from "./decorator/Injectable";
+import { DynamicModule, ModuleImport } from "./decorator/Module";
 import { OnceSharedEvents } from "./events/Once";
 import { getGlobalContainer } from "./global";
 import { OnceLoader } from "./loader/Events/once.loader";
 import { ModuleLoader } from "./loader/module.loader";
 import { ProviderLoader } from "./loader/Provider/provider.loader";
 import { Logger } from "./logger/logger";
+import { PlayerScope } from "./scope/player.scope";
+import { RateLimiter } from "./security/rate.limiter";
+import { isServer } from "./side";
+import { ModuleUtils } from "./utils/module.utils";
 
-export const isServer = IsDuplicityVersion();
+export { isServer };
 
 export enum ApplicationState {
 	STOPPED = "stopped",
@@ -15,6 +20,21 @@ export enum ApplicationState {
 	STOPPING = "stopping",
 }
 
+/**
+ * Fired with an ApplicationStateChange on every state transition, so other
+ * resources know when the core is ready or going away
+ */
+export const ApplicationStateEvent = "Eterna:core:state";
+
+export interface ApplicationStateChange {
+	resource: string;
+	state: ApplicationState;
+	previous: ApplicationState;
+	timestamp: number;
+}
+
+export type ApplicationStateListener = (change: ApplicationStateChange) => void;
+
 export interface ApplicationModule {
 	name?: string;
 	initialize?(): Promise<void>;
@@ -27,10 +47,11 @@ export interface ApplicationOptions {
 }
 
 export interface ApplicationModuleWithClass extends ApplicationModule {
-	moduleClass?: new () => ApplicationModule;
+	moduleClass?: (new () => ApplicationModule) | DynamicModule;
 }
 
-export type ModuleInput = ApplicationModule | (new () => ApplicationModule);
+export type ModuleInput =
+	ApplicationModule | (new () => ApplicationModule) | DynamicModule;
 
 @Injectable()
 export class Application {
@@ -38,9 +59,15 @@ export class Application {
 	private shutdownPromise: Promise<boolean> | null = null;
 	private shutdownResolver: ((value: boolean) => void) | null = null;
 	private onStopCallback: (() => void) | null = null;
+	private onResourceStopCallback: ((resourceName: string) => void) | null =
+		null;
+	private shutdownTimer: ReturnType<typeof setTimeout> | null = null;
+	// Still tearing down after the shutdown timeout won the race
+	private pendingShutdown: Promise<boolean> | null = null;
+	private readonly stateListeners = new Set<ApplicationStateListener>();
 	private readonly container = getGlobalContainer();
 	private readonly modules: ApplicationModuleWithClass[] = [];
-	private readonly options: Required<ApplicationOptions>;
+	private options: Required<ApplicationOptions>;
 
 	@Inject(ModuleLoader)
 	private readonly moduleLoader: ModuleLoader;
@@ -48,6 +75,12 @@ export class Application {
 	@Inject(OnceLoader)
 	private readonly onceLoader: OnceLoader;
 
+	@Inject(PlayerScope)
+	private readonly playerScope: PlayerScope;
+
+	@Inject(RateLimiter)
+	private readonly rateLimiter: RateLimiter;
+
 	@Inject(Logger)
 	private readonly logger: Logger;
 
@@ -61,7 +94,7 @@ export class Application {
 
 	static async create<T>(
 		providerTarget: new (...args: any[]) => T,
-		modules: (ApplicationModule | (new () => ApplicationModule))[] = [],
+		modules: ModuleInput[] = [],
 		options?: ApplicationOptions
 	): Promise<Application> {
 		try {
@@ -74,6 +107,11 @@ export class Application {
 
 			const app = container.get<Application>(Application);
 
+			// The container constructs the application without arguments
+			if (options) {
+				app.options = { ...app.options, ...options };
+			}
+
 			for (const module of modules) {
 				await app.addModule(module);
 			}
@@ -116,7 +154,7 @@ export class Application {
 			return;
 		}
 
-		this.state = ApplicationState.STARTING;
+		this.setState(ApplicationState.STARTING);
 		this.logger.info("Starting Application...");
 
 		try {
@@ -124,15 +162,26 @@ export class Application {
 				this.shutdownResolver = resolve;
 			});
 
+			this.moduleLoader.setShutdownTimeout(
+				this.options.gracefulShutdownTimeout
+			);
+
+			if (isServer) {
+				this.playerScope.start();
+				this.rateLimiter.start();
+			}
+
 			await this.loadModules();
 			this.registerEventListeners();
 			await this.onceLoader.trigger(OnceSharedEvents.Start);
+			await this.moduleLoader.bootstrap();
 
-			this.state = ApplicationState.RUNNING;
+			this.setState(ApplicationState.RUNNING);
 			this.logger.info("Application started successfully");
 		} catch (error) {
-			this.state = ApplicationState.STOPPED;
 			this.logger.error("Error while starting Application", error);
+			await this.unwindStart();
+			this.setState(ApplicationState.STOPPED);
 			throw error;
 		}
 	}
@@ -148,30 +197,84 @@ export class Application {
 			return this.shutdownPromise || Promise.resolve(true);
 		}
 
-		this.state = ApplicationState.STOPPING;
+		this.setState(ApplicationState.STOPPING);
 		this.logger.info("Stopping Application...");
 
 		try {
+			const shutdown = this.performShutdown();
+			this.pendingShutdown = shutdown;
+
 			const shutdownResult = await Promise.race([
-				this.performShutdown(),
+				shutdown,
 				this.createShutdownTimeout(),
 			]);
 
-			this.state = ApplicationState.STOPPED;
+			shutdown.finally(() => {
+				if (this.pendingShutdown === shutdown) {
+					this.pendingShutdown = null;
+				}
+			});
+
+			this.setState(ApplicationState.STOPPED);
 			this.logger.info("Application stopped successfully");
 
 			return shutdownResult;
 		} catch (error) {
-			this.state = ApplicationState.STOPPED;
+			this.setState(ApplicationState.STOPPED);
 			this.logger.error("Error while stopping Application", error);
 			return false;
 		}
 	}
 
+	/**
+	 * Stops the application, resets every loader and starts it again with the
+	 * same modules. Module providers are instantiated anew.
+	 */
+	async restart(): Promise<void> {
+		this.logger.info("Restarting Application...");
+
+		if (this.state !== ApplicationState.STOPPED) {
+			const stopped = await this.stop();
+
+			if (!stopped) {
+				this.logger.warn("Application did not stop cleanly, restarting anyway");
+			}
+		}
+
+		// A timed out shutdown keeps unloading, starting before it settled would
+		// have it tear down the restarted modules
+		if (this.pendingShutdown) {
+			this.logger.warn("Waiting for the previous shutdown to settle...");
+			await this.pendingShutdown;
+		}
+
+		await this.moduleLoader.reset();
+
+		for (const module of this.modules) {
+			if (module.initialize) {
+				await module.initialize();
+			}
+		}
+
+		await this.start();
+	}
+
 	getState(): ApplicationState {
 		return this.state;
 	}
 
+	/**
+	 * Registers a listener for every state transition and returns a function
+	 * removing it again
+	 */
+	onStateChange(listener: ApplicationStateListener): () => void {
+		this.stateListeners.add(listener);
+
+		return () => {
+			this.stateListeners.delete(listener);
+		};
+	}
+
 	isRunning(): boolean {
 		return this.state === ApplicationState.RUNNING;
 	}
@@ -190,6 +293,9 @@ export class Application {
 			if (typeof module === "function") {
 				moduleInstance = new module();
 				moduleInstance.moduleClass = module;
+			} else if (ModuleUtils.isDynamicModule(module)) {
+				moduleInstance = new (module.module as new () => ApplicationModule)();
+				moduleInstance.moduleClass = module;
 			} else {
 				moduleInstance = module;
 			}
@@ -206,20 +312,54 @@ export class Application {
 	}
 
 	private async loadModules(): Promise<void> {
-		for (const module of this.modules) {
-			try {
-				const moduleToLoad =
-					(module as ApplicationModuleWithClass).moduleClass || module;
-				this.moduleLoader.load(moduleToLoad);
+		const modulesToLoad = this.modules.map(
+			(module) => (module.moduleClass || module) as ModuleImport
+		);
+
+		try {
+			// The loader builds the whole dependency graph before loading anything
+			await this.moduleLoader.load(...modulesToLoad);
+
+			for (const module of this.modules) {
 				this.logger.debug(`Module loaded: ${module.name || "N/A"}`);
+			}
+		} catch (error) {
+			this.logger.error("Error while loading modules", error);
+			throw error;
+		}
+	}
+
+	private setState(state: ApplicationState): void {
+		const previous = this.state;
+		if (previous === state) {
+			return;
+		}
+
+		this.state = state;
+
+		const change: ApplicationStateChange = {
+			resource:
+				typeof GetCurrentResourceName !== "undefined"
+					? GetCurrentResourceName()
+					: "unknown",
+			state,
+			previous,
+			timestamp: Date.now(),
+		};
+
+		this.logger.debug(`Application state: ${previous} -> ${state}`);
+
+		for (const listener of this.stateListeners) {
+			try {
+				listener(change);
 			} catch (error) {
-				this.logger.error(
-					`Error while loading module: ${module.name || "N/A"}`,
-					error
-				);
-				throw error;
+				this.logger.error("Error in application state listener", error);
 			}
 		}
+
+		if (typeof TriggerEvent !== "undefined") {
+			TriggerEvent(ApplicationStateEvent, change);
+		}
 	}
 
 	private registerEventListeners(): void {
@@ -229,14 +369,16 @@ export class Application {
 			this.options.enableResourceListener &&
 			typeof addEventListener !== "undefined"
 		) {
-			addEventListener("onResourceStop", (resourceName: string) => {
+			this.onResourceStopCallback = (resourceName: string) => {
 				if (
 					typeof GetCurrentResourceName !== "undefined" &&
 					resourceName === GetCurrentResourceName()
 				) {
 					this.handleStop();
 				}
-			});
+			};
+
+			addEventListener("onResourceStop", this.onResourceStopCallback);
 		}
 
 		if (typeof addEventListener !== "undefined") {
@@ -264,9 +406,12 @@ export class Application {
 
 	private async performShutdown(): Promise<boolean> {
 		try {
+			await this.moduleLoader.beforeShutdown();
 			await this.onceLoader.trigger(OnceSharedEvents.Stop);
 			await this.cleanupModules();
 			await this.moduleLoader.unload();
+			await this.playerScope.stop();
+			this.rateLimiter.stop();
 			this.removeEventListeners();
 
 			if (this.shutdownResolver) {
@@ -287,6 +432,23 @@ export class Application {
 		}
 	}
 
+	/**
+	 * Tears down what a failed start already set up, so the next start or
+	 * restart does not run on top of it
+	 */
+	private async unwindStart(): Promise<void> {
+		try {
+			this.removeEventListeners();
+			await this.moduleLoader.reset();
+			await this.playerScope.stop();
+			this.rateLimiter.stop();
+		} catch (error) {
+			this.logger.error("Error while undoing the failed start", error);
+		}
+
+		this.cleanup();
+	}
+
 	private async cleanupModules(): Promise<void> {
 		for (const module of this.modules) {
 			try {
@@ -304,17 +466,25 @@ export class Application {
 	}
 
 	private removeEventListeners(): void {
-		if (this.onStopCallback && typeof removeEventListener !== "undefined") {
+		if (typeof removeEventListener === "undefined") {
+			return;
+		}
+
+		if (this.onStopCallback) {
 			removeEventListener(
 				"Eterna.__internal__.stop_application",
 				this.onStopCallback
 			);
 		}
+
+		if (this.onResourceStopCallback) {
+			removeEventListener("onResourceStop", this.onResourceStopCallback);
+		}
 	}
 
 	private createShutdownTimeout(): Promise<boolean> {
 		return new Promise((resolve) => {
-			setTimeout(() => {
+			this.shutdownTimer = setTimeout(() => {
 				this.logger.warn(
 					`Graceful shutdown timeout ${this.options.gracefulShutdownTimeout}ms reached. Forcing shutdown.`
 				);
@@ -324,8 +494,14 @@ export class Application {
 	}
 
 	private cleanup(): void {
+		if (this.shutdownTimer) {
+			clearTimeout(this.shutdownTimer);
+		}
+
+		this.shutdownTimer = null;
 		this.shutdownPromise = null;
 		this.shutdownResolver = null;
 		this.onStopCallback = null;
+		this.onResourceStopCallback = null;
 	}
 }
@@ -0,0 +1,148 @@
+import type { EventMetadata } from "../decorator/Events/OnEvent";
+import { Inject, Injectable } from "../decorator/Injectable";
+import { Logger } from "../logger/logger";
+
+export interface ConditionContext {
+	event: EventMetadata;
+	// Only set for networked events on the server
+	source?: number;
+	args: any[];
+	// The part after the colon of parameterized conditions, e.g. `resourceIs:<name>`
+	argument?: string;
+}
+
+export type ConditionPredicate = (
+	context: ConditionContext
+) => boolean | Promise<boolean>;
+
+/**
+ * A condition name, a list of expressions which all have to pass, or an
+ * explicit `and` / `or` combination. Names prefixed with `!` are negated.
+ */
+export type ConditionExpression =
+	| string
+	| ConditionExpression[]
+	| { and: ConditionExpression[] }
+	| { or: ConditionExpression[] };
+
+export const allOf = (
+	...conditions: ConditionExpression[]
+): ConditionExpression => ({ and: conditions });
+
+export const anyOf = (
+	...conditions: ConditionExpression[]
+): ConditionExpression => ({ or: conditions });
+
+/**
+ * Named predicates deciding whether an event handler runs. Conditions are
+ * registered here directly or as providers decorated with `@Condition`.
+ */
+@Injectable()
+export class ConditionRegistry {
+	private readonly conditions = new Map<string, ConditionPredicate>();
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public constructor() {
+		this.conditions.set("sideIsServer", () => IsDuplicityVersion());
+		this.conditions.set("sideIsClient", () => !IsDuplicityVersion());
+		this.conditions.set(
+			"resourceIs",
+			({ argument }) => GetCurrentResourceName() === argument
+		);
+		this.conditions.set(
+			"playerHasAce",
+			({ source, argument }) =>
+				source !== undefined &&
+				!!argument &&
+				IsPlayerAceAllowed(String(source), argument)
+		);
+		// The default server.cfg allows `command` for group.admin
+		this.conditions.set(
+			"playerIsAdmin",
+			({ source }) =>
+				source !== undefined && IsPlayerAceAllowed(String(source), "command")
+		);
+	}
+
+	public register(name: string, predicate: ConditionPredicate): void {
+		if (name.includes(":") || name.startsWith("!")) {
+			throw new Error(`Invalid condition name '${name}'`);
+		}
+
+		if (this.conditions.has(name)) {
+			this.logger.warn(`[conditions] Condition ${name} is replaced`);
+		}
+
+		this.conditions.set(name, predicate);
+	}
+
+	public unregister(name: string): void {
+		this.conditions.delete(name);
+	}
+
+	public has(name: string): boolean {
+		return this.conditions.has(name);
+	}
+
+	/**
+	 * Evaluates the expression from left to right and stops as soon as the
+	 * result is known. Unknown conditions fail.
+	 */
+	public async evaluate(
+		expression: ConditionExpression,
+		context: Omit<ConditionContext, "argument">
+	): Promise<boolean> {
+		if (typeof expression === "string") {
+			return this.evaluateName(expression, context);
+		}
+
+		if (Array.isArray(expression) || "and" in expression) {
+			const conditions = Array.isArray(expression)
+				? expression
+				: expression.and;
+
+			for (const condition of conditions) {
+				if (!(await this.evaluate(condition, context))) {
+					return false;
+				}
+			}
+
+			return true;
+		}
+
+		for (const condition of expression.or) {
+			if (await this.evaluate(condition, context)) {
+				return true;
+			}
+		}
+
+		return false;
+	}
+
+	private async evaluateName(
+		expression: string,
+		context: Omit<ConditionContext, "argument">
+	): Promise<boolean> {
+		const negated = expression.startsWith("!");
+		const condition = negated ? expression.slice(1) : expression;
+		const separator = condition.indexOf(":");
+		const name = separator === -1 ? condition : condition.slice(0, separator);
+		const argument =
+			separator === -1 ? undefined : condition.slice(separator + 1);
+
+		const predicate = this.conditions.get(name);
+
+		if (!predicate) {
+			this.logger.warn(
+				`[conditions] Unknown condition ${name} used by ${context.event.name}`
+			);
+			return false;
+		}
+
+		const result = !!(await predicate({ ...context, argument }));
+
+		return negated ? !result : result;
+	}
+}
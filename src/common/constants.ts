@@ -8,4 +8,8 @@ export const DecoratorMetadataKey = {
 	gameEvent: "__eterna__cfx_game_event",
 	once: "__eterna__cfx_once",
 	tick: "__eterna__cfx_tick",
+	export: "__eterna__cfx_export",
+	condition: "__eterna__cfx_condition",
+	domainEvent: "__eterna__cfx_domain_event",
+	rpcMiddleware: "__eterna__cfx_rpc_middleware",
 } as const;
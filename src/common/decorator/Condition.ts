@@ -0,0 +1,34 @@
+import type { ConditionContext } from "../condition/condition.registry";
+import { DecoratorMetadataKey } from "../constants";
+import { Injectable } from "./Injectable";
+
+export type ConditionMetadata = {
+	name: string;
+};
+
+export interface ConditionGuard {
+	check(context: ConditionContext): boolean | Promise<boolean>;
+}
+
+/**
+ * Registers the class as a named condition once its module is loaded. The
+ * class has to be listed in the providers of a module.
+ */
+export const Condition = (name: string): ClassDecorator => {
+	if (typeof name !== "string" || name.length === 0) {
+		throw new Error("Condition name must be a non-empty string");
+	}
+
+	return (target: Function) => {
+		if (typeof target.prototype.check !== "function") {
+			throw new Error(
+				`Condition ${target.name} has to implement check(context)`
+			);
+		}
+
+		const metadata: ConditionMetadata = { name };
+
+		Reflect.defineMetadata(DecoratorMetadataKey.condition, metadata, target);
+		Reflect.decorate([Injectable()], target);
+	};
+};
@@ -0,0 +1,49 @@
+import { DecoratorMetadataKey } from "../../constants";
+import type { Context } from "../../context";
+import type { DomainEventClass } from "../../domain/domain.event.bus";
+import { addMethodMetadata } from "../../reflect";
+import type { EventMethodDecorator } from "./OnEvent";
+
+export type DomainEventMetadata = {
+	eventClass: DomainEventClass;
+	context: boolean;
+	// Higher priorities run first
+	priority: number;
+	methodName: string;
+};
+
+export type DomainEventOptions = {
+	context?: boolean;
+	priority?: number;
+};
+
+export type DomainEventHandlerArgs<
+	E,
+	O extends DomainEventOptions,
+> = O extends { context: true } ? [context: Context, event: E] : [event: E];
+
+/**
+ * Handles the domain events of the class, and of its subclasses, published
+ * through the `DomainEventBus`. The event instance is passed as is, without
+ * any serialization.
+ */
+export const OnDomainEvent = <E, O extends DomainEventOptions = {}>(
+	eventClass: DomainEventClass<E>,
+	options: O = {} as O
+): EventMethodDecorator<DomainEventHandlerArgs<E, O>> => {
+	return (target, propertyKey) => {
+		const metadata: DomainEventMetadata = {
+			eventClass,
+			context: options.context ?? false,
+			priority: options.priority ?? 0,
+			methodName: propertyKey.toString(),
+		};
+
+		addMethodMetadata(
+			DecoratorMetadataKey.domainEvent,
+			metadata,
+			target,
+			propertyKey
+		);
+	};
+};
@@ -1,28 +1,101 @@
+import type { ConditionExpression } from "../../condition/condition.registry";
 import { DecoratorMetadataKey } from "../../constants";
-import { EventsClient } from "../../events/Client";
-import { EventsServer } from "../../events/Server";
+import type { Context } from "../../context";
+import type {
+	ClientEventMap,
+	EventArgs,
+	EventName,
+	ServerEventMap,
+} from "../../events/EventMap";
 import { addMethodMetadata } from "../../reflect";
+import { Schema, schema as schemaBuilder } from "../../schema/schema";
+import type { RateLimitOptions } from "../../security/rate.limiter";
 
 export type EventMetadata = {
 	name: string;
 	networked: boolean;
 	context: boolean;
 	methodName: string;
-	condition?: string;
+	condition?: ConditionExpression;
+	// Validates the arguments of networked events on the server
+	schema?: Schema<any[]>;
+	// Limit per player on the server, false disables the default limit
+	rateLimit?: RateLimitOptions | false;
+	// Higher priorities run first
+	priority?: number;
+	once?: boolean;
 };
 
+/**
+ * Return this from an event handler to skip the handlers with a lower priority
+ */
+export const StopPropagation = Symbol("StopPropagation");
+
 export type EventOptions = {
 	networked?: boolean;
 	context?: boolean;
 	priority?: number;
 	once?: boolean;
-	condition?: string;
+	condition?: ConditionExpression;
+	// One schema per argument, or a tuple schema; the source is not included
+	schema?: Schema<any[]> | readonly Schema<any>[];
+	rateLimit?: RateLimitOptions | false;
 };
 
-export const OnEvent = (
-	name: EventsClient | EventsServer,
-	options: EventOptions = {}
-): MethodDecorator => {
+/**
+ * A namespace pattern: `*` matches one segment of the event name, `**` one
+ * or more, e.g. `inventory:*` or `inventory:**`
+ */
+export type EventPattern = `${string}*${string}`;
+
+/**
+ * Arguments the handler of an event is called with: the context if enabled,
+ * the source for net events handled on the server and the event arguments.
+ * Handlers of patterns receive the concrete event name first.
+ */
+export type EventHandlerArgs<
+	E extends EventName | EventPattern,
+	O extends EventOptions,
+> = E extends EventName
+	? [
+			...(O extends { context: true } ? [context: Context] : []),
+			...(E extends keyof ServerEventMap
+				? O extends { networked: false }
+					? []
+					: [source: number]
+				: []),
+			...EventArgs<E>,
+		]
+	: [
+			eventName: string,
+			...(O extends { context: true } ? [context: Context] : []),
+			...args: any[],
+		];
+
+/**
+ * A method decorator accepting only handlers matching the event arguments
+ */
+export type EventMethodDecorator<Args extends any[]> = <
+	T extends (...args: Args) => any,
+>(
+	target: object,
+	propertyKey: string | symbol,
+	descriptor: TypedPropertyDescriptor<T>
+) => void;
+
+/**
+ * Handles an event of the event maps, or every event matching a pattern.
+ * Patterns match events with a dispatcher on this side: events with handlers
+ * of their own and events emitted through the EventEmitter. Net events only
+ * matched by a pattern have to be announced with `EventLoader.listen`.
+ */
+export const OnEvent = <
+	E extends EventName | EventPattern,
+	O extends EventOptions = {},
+>(
+	name: E,
+	options: O = {} as O
+): EventMethodDecorator<EventHandlerArgs<E, O>> => {
 	return (target, propertyKey) => {
 		// Validierung
 		if (typeof propertyKey !== "string") {
@@ -37,6 +110,12 @@ export const OnEvent = (
 			context: options.context ?? false,
 			methodName: propertyKey,
 			condition: options.condition,
+			schema: Array.isArray(options.schema)
+				? schemaBuilder.tuple(...options.schema)
+				: (options.schema as Schema<any[]> | undefined),
+			rateLimit: options.rateLimit,
+			priority: options.priority ?? 0,
+			once: options.once ?? false,
 		};
 
 		addMethodMetadata(
@@ -48,16 +127,22 @@ export const OnEvent = (
 	};
 };
 
-export const OnClientEvent = (
-	name: EventsClient,
-	options: EventOptions = {}
-): MethodDecorator => {
-	return OnEvent(name, { ...options, networked: true });
+export const OnClientEvent = <
+	E extends keyof ClientEventMap,
+	O extends EventOptions = {},
+>(
+	name: E,
+	options: O = {} as O
+): EventMethodDecorator<EventHandlerArgs<E, O & { networked: true }>> => {
+	return OnEvent(name, { ...options, networked: true as const });
 };
 
-export const OnServerEvent = (
-	name: EventsServer,
-	options: EventOptions = {}
-): MethodDecorator => {
-	return OnEvent(name, { ...options, networked: true });
+export const OnServerEvent = <
+	E extends keyof ServerEventMap,
+	O extends EventOptions = {},
+>(
+	name: E,
+	options: O = {} as O
+): EventMethodDecorator<EventHandlerArgs<E, O & { networked: true }>> => {
+	return OnEvent(name, { ...options, networked: true as const });
 };
@@ -1,17 +1,33 @@
 import { DecoratorMetadataKey } from "../../constants";
+import { GameEvents } from "../../events/GameEvents";
 import { addMethodMetadata } from "../../reflect";
 
-//TODO! Create an GameEvent Enum and put it here
-export const GameEvent = (event: string, context = false): MethodDecorator => {
+export type GameEventMetadata = {
+  name: GameEvents;
+  net: false;
+  context: boolean;
+  methodName: string;
+};
+
+/**
+ * Calls the method with the decoded payload of the game event, see
+ * `GameEventPayloads`. Game events only fire on the client.
+ */
+export const GameEvent = (
+  event: GameEvents,
+  context = false
+): MethodDecorator => {
   return (target, propertyKey) => {
+    const metadata: GameEventMetadata = {
+      name: event,
+      net: false,
+      context,
+      methodName: propertyKey.toString(),
+    };
+
     addMethodMetadata(
       DecoratorMetadataKey.gameEvent,
-      {
-        name: event.toString(),
-        net: false,
-        context,
-        methodName: propertyKey.toString(),
-      },
+      metadata,
       target,
       propertyKey
     );
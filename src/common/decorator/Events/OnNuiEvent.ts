@@ -1,26 +1,43 @@
 import { DecoratorMetadataKey } from "../../constants";
-import { EventsNui } from "../../events/NuiEvents";
+import type { Context } from "../../context";
+import type { NuiCallbackMap } from "../../events/EventMap";
 import { addMethodMetadata } from "../../reflect";
 
-export const OnNuiEvent = <T = any, R = any>(
-	event: EventsNui,
-	context = false
+export type NuiEventMetadata = {
+	name: keyof NuiCallbackMap;
+	context: boolean;
+	methodName: string;
+};
+
+export type NuiHandler<E extends keyof NuiCallbackMap, C extends boolean> = (
+	...args: C extends true
+		? [context: Context, data: NuiCallbackMap[E]["data"]]
+		: [data: NuiCallbackMap[E]["data"]]
+) => NuiCallbackMap[E]["response"] | Promise<NuiCallbackMap[E]["response"]>;
+
+/**
+ * Handles the NUI callback `event`. The return value is sent back to the web
+ * `fetch`, a thrown error or a rejected call as `{ ok: false, error }`.
+ */
+export const OnNuiEvent = <
+	E extends keyof NuiCallbackMap,
+	C extends boolean = false,
+>(
+	event: E,
+	context: C = false as C
 ) => {
-	return (
-		target: any, // What is this Type ?
-		propertyKey: any, // What is this Type ?
-		descriptor: TypedPropertyDescriptor<(data?: T) => Promise<R>>
+	return <T extends NuiHandler<E, C>>(
+		target: object,
+		propertyKey: string | symbol,
+		descriptor: TypedPropertyDescriptor<T>
 	) => {
-		addMethodMetadata(
-			DecoratorMetadataKey.nui,
-			{
-				name: event,
-				context,
-				methodName: propertyKey.toString(),
-			},
-			target,
-			propertyKey
-		);
+		const metadata: NuiEventMetadata = {
+			name: event,
+			context,
+			methodName: propertyKey.toString(),
+		};
+
+		addMethodMetadata(DecoratorMetadataKey.nui, metadata, target, propertyKey);
 
 		return descriptor;
 	};
@@ -2,14 +2,31 @@ import { DecoratorMetadataKey } from "../../constants";
 import { RpcClient } from "../../events/ClientRpc";
 import { RpcServer } from "../../events/ServerRpc";
 import { addMethodMetadata } from "../../reflect";
+import type { RpcMethodRef, RpcSide } from "../../rpc/rpc.contract";
+import type { RateLimitOptions } from "../../security/rate.limiter";
+import type { TransferProgress } from "../../transfer/chunked.transfer";
 
 export interface RpcOptions {
 	timeout?: number;
+	// Attempts after a timed out call, with the same idempotency key
 	retries?: number;
+	// Base delay of the exponential backoff between retries
+	retryDelay?: number;
+	// How long the handler keeps its responses to calls with retries, 0 disables
+	idempotencyTtl?: number;
+	// Names from the RpcMiddlewareRegistry, run in this order before the handler
 	middleware?: string[];
 	validator?: (data: any) => boolean;
 	serializer?: (data: any) => any;
 	deserializer?: (data: any) => any;
+	// Limit per player on the server, false disables the default limit
+	rateLimit?: RateLimitOptions | false;
+	// Calls and responses above this JSON length are sent in chunks
+	chunkSize?: number;
+	// Bytes per second of chunked transfers
+	bandwidth?: number;
+	// Progress of the chunked transfers of the call, sent and received
+	onProgress?: (progress: TransferProgress) => void;
 }
 
 export interface RpcCall<TRequest = any, TResponse = any> {
@@ -17,6 +34,10 @@ export interface RpcCall<TRequest = any, TResponse = any> {
 	method: string;
 	params: TRequest;
 	timestamp: number;
+	// Set if the caller retries, stays the same for every attempt of the call
+	idempotencyKey?: string;
+	// The calling player, set by the server on receipt
+	source?: number;
 }
 
 export interface RpcResponse<TResponse = any> {
@@ -33,7 +54,7 @@ export interface RpcResponse<TResponse = any> {
 
 export interface RpcMethod {
 	name: string;
-	handler: Function;
+	handler: (...args: any[]) => any;
 	options: RpcOptions;
 	metadata: {
 		paramTypes?: any[];
@@ -61,19 +82,70 @@ export class RpcValidationError extends RpcError {
 	}
 }
 
-export const Rpc = <TRequest = any, TResponse = any>(
-	rpcEvent: RpcClient | RpcServer,
+/**
+ * Accepts handlers of the contract method. Handlers on the server get the
+ * source of the calling player in front of the parameters.
+ */
+export type RpcHandlerDecorator<
+	F extends (...args: any[]) => any,
+	S extends RpcSide = "server",
+> = <T extends RpcHandler<F, S>>(
+	target: object,
+	propertyKey: string | symbol,
+	descriptor: TypedPropertyDescriptor<T> & RpcSourceCheck<T, F, S>
+) => void;
+
+type RpcHandlerResult<F extends (...args: any[]) => any> =
+	Awaited<ReturnType<F>> | Promise<Awaited<ReturnType<F>>>;
+
+type RpcHandler<
+	F extends (...args: any[]) => any,
+	S extends RpcSide,
+> = S extends "client"
+	? (...args: Parameters<F>) => RpcHandlerResult<F>
+	: (source: number, ...args: Parameters<F>) => RpcHandlerResult<F>;
+
+// Handlers with fewer parameters satisfy RpcHandler too, a server handler
+// without the source would get it as its first parameter
+type RpcSourceCheck<
+	T,
+	F extends (...args: any[]) => any,
+	S,
+> = S extends "client"
+	? unknown
+	: T extends (...args: infer P) => any
+		? [source: number, ...Parameters<F>] extends P
+			? unknown
+			: { readonly "server RPC handlers take the source first": never }
+		: unknown;
+
+/**
+ * Contract methods check the handler against their signature, plain event
+ * names accept any method
+ */
+export interface RpcDecoratorFactory {
+	<F extends (...args: any[]) => any, S extends RpcSide>(
+		rpcEvent: RpcMethodRef<F, S>,
+		options?: RpcOptions
+	): RpcHandlerDecorator<F, S>;
+	(rpcEvent: RpcClient | RpcServer, options?: RpcOptions): MethodDecorator;
+}
+
+export const Rpc: RpcDecoratorFactory = (
+	rpcEvent: RpcClient | RpcServer | RpcMethodRef,
 	options: RpcOptions = {}
 ): MethodDecorator => {
 	return (target, propertyKey, descriptor) => {
+		const methodOptions: RpcOptions = {
+			timeout: 30000,
+			retries: 0,
+			idempotencyTtl: 60000,
+			middleware: [],
+			...options,
+		};
 		const methodMetadata = {
-			event: rpcEvent,
-			options: {
-				timeout: 30000,
-				retries: 0,
-				middleware: [],
-				...options,
-			},
+			event: typeof rpcEvent === "string" ? rpcEvent : rpcEvent.event,
+			options: methodOptions,
 			paramTypes: Reflect.getMetadata("design:paramtypes", target, propertyKey),
 			returnType: Reflect.getMetadata("design:returntype", target, propertyKey),
 			isAsync: descriptor?.value?.constructor?.name === "AsyncFunction",
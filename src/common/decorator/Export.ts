@@ -0,0 +1,37 @@
+import { DecoratorMetadataKey } from "../constants";
+import { setMethodMetadata } from "../reflect";
+
+export type ExportMetadata = {
+	name: string;
+	methodName: string;
+};
+
+/**
+ * Exposes the method to other resources via `exports`. The export name
+ * defaults to the method name.
+ */
+export const Export = (name?: string): MethodDecorator => {
+	if (name !== undefined && (typeof name !== "string" || name.length === 0)) {
+		throw new Error("Export name must be a non-empty string");
+	}
+
+	return (target, propertyKey) => {
+		if (typeof propertyKey !== "string") {
+			throw new Error(
+				`Export decorator can only be used on methods with string property keys`
+			);
+		}
+
+		const metadata: ExportMetadata = {
+			name: name ?? propertyKey,
+			methodName: propertyKey,
+		};
+
+		setMethodMetadata(
+			DecoratorMetadataKey.export,
+			metadata,
+			target,
+			propertyKey
+		);
+	};
+};
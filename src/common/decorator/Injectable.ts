@@ -1,19 +1,69 @@
-import { decorate, inject, injectable, multiInject } from "inversify";
+import { decorate, inject, injectable, multiInject, optional } from "inversify";
 import { getGlobalContainer } from "../global";
+import { PlayerScopeRegistry } from "../scope/player.scope.registry";
 
 export const Inject = inject;
 export const MultiInject = multiInject;
+export const Optional = optional;
+
+// Singleton classes bound by the decorator, see getInjectableClasses
+const injectableClasses = new Set<Function>();
+
+/**
+ * Returns every singleton class decorated with `@Injectable`. The testing
+ * module binds them in its isolated container.
+ */
+export const getInjectableClasses = (): Function[] =>
+	Array.from(injectableClasses);
+
+export type InjectableScope = "singleton" | "player";
+
+export type InjectableOptions = {
+	// "player" creates one instance per connected player
+	scope?: InjectableScope;
+};
+
+const isInjectableOptions = (value: any): value is InjectableOptions =>
+	!!value &&
+	typeof value === "object" &&
+	Object.getPrototypeOf(value) === Object.prototype;
 
 export const Injectable =
 	(...tokens: any[]): ClassDecorator =>
 	(target) => {
 		decorate(injectable(), target);
 
+		const options: InjectableOptions = isInjectableOptions(tokens[0])
+			? tokens.shift()
+			: {};
+
 		// Use the classname as the default token
 		const primaryToken = tokens.length > 0 ? tokens[0] : target.name || target;
 
 		const container = getGlobalContainer();
 
+		if (options.scope === "player") {
+			PlayerScopeRegistry.register(target);
+
+			// Resolves to a proxy forwarding to the instance of the current player
+			if (!container.isBound(target)) {
+				container
+					.bind(target)
+					.toDynamicValue(() => PlayerScopeRegistry.resolve(target))
+					.inTransientScope();
+			}
+
+			const aliases = tokens.length > 0 ? tokens : [primaryToken];
+
+			aliases.forEach((token) => {
+				if (token !== target && !container.isBound(token)) {
+					container.bind(token).toService(target);
+				}
+			});
+
+			return;
+		}
+
 		// Check if the Token is already bound
 		if (!container.isBound(primaryToken)) {
 			container
@@ -22,6 +72,14 @@ export const Injectable =
 				.inSingletonScope();
 		}
 
+		// Module containers only fall back to bindings of the global container,
+		// so the class has to be bound for providers to inject it
+		if (primaryToken !== target && !container.isBound(target)) {
+			container.bind(target).toService(primaryToken);
+		}
+
+		injectableClasses.add(target);
+
 		// Bind the rest of the tokens
 		tokens.slice(1).forEach((token) => {
 			if (!container.isBound(token)) {
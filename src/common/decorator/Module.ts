@@ -1,11 +1,42 @@
 import { DecoratorMetadataKey } from "../constants";
 import { Injectable } from "./Injectable";
 
+/**
+ * Binds a fixed value, e.g. configuration, to a token inside a module
+ */
+export type ValueProvider<T = any> = {
+  provide: string | symbol | Function;
+  useValue: T;
+};
+
+/**
+ * Module class configured at runtime, usually returned by a static
+ * `forRoot(options)` / `forFeature(...)` method of the module:
+ *
+ * ```ts
+ * static forRoot(options: DatabaseOptions): DynamicModule {
+ *   return {
+ *     module: DatabaseModule,
+ *     providers: [{ provide: DATABASE_OPTIONS, useValue: options }],
+ *   };
+ * }
+ * ```
+ */
+export type DynamicModule = {
+  module: Function;
+  providers?: any[];
+  services?: any[];
+  imports?: ModuleImport[];
+  exports?: any[];
+};
+
+export type ModuleImport = Function | DynamicModule;
+
 export type ModuleMetadata = {
   name?: string;
-  providers?: any[];
+  providers?: any[]; // Provider classes or value providers
   services?: any[];
-  imports?: any[]; // Import modules
+  imports?: ModuleImport[]; // Import modules
   exports?: any[]; // export public services
 };
 
@@ -1,17 +1,19 @@
 import { DecoratorMetadataKey } from "../constants";
-import { Injectable } from "./Injectable";
+import { Injectable, InjectableScope } from "./Injectable";
 
 export type ProviderMetadata = {
   name?: string;
+  scope?: InjectableScope;
 };
 
 export const Provider = (options: ProviderMetadata = {}): ClassDecorator => {
   return (target: Function) => {
     const metadata: ProviderMetadata = {
       name: options.name ?? target.name,
+      scope: options.scope ?? "singleton",
     };
 
     Reflect.defineMetadata(DecoratorMetadataKey.provider, metadata, target);
-    Reflect.decorate([Injectable()], target);
+    Reflect.decorate([Injectable({ scope: metadata.scope })], target);
   };
 };
@@ -0,0 +1,39 @@
+import { DecoratorMetadataKey } from "../constants";
+import type { RpcNext } from "../rpc/rpc.middleware.registry";
+import type { RpcCall } from "./Events/Rpc";
+import { Injectable } from "./Injectable";
+
+export type RpcMiddlewareMetadata = {
+	name: string;
+};
+
+export interface RpcMiddlewareHandler {
+	use(call: RpcCall, next: RpcNext): any;
+}
+
+/**
+ * Registers the class as a named RPC middleware once its module is loaded.
+ * The class has to be listed in the providers of a module.
+ */
+export const RpcMiddleware = (name: string): ClassDecorator => {
+	if (typeof name !== "string" || name.length === 0) {
+		throw new Error("RPC middleware name must be a non-empty string");
+	}
+
+	return (target: Function) => {
+		if (typeof target.prototype.use !== "function") {
+			throw new Error(
+				`RPC middleware ${target.name} has to implement use(call, next)`
+			);
+		}
+
+		const metadata: RpcMiddlewareMetadata = { name };
+
+		Reflect.defineMetadata(
+			DecoratorMetadataKey.rpcMiddleware,
+			metadata,
+			target
+		);
+		Reflect.decorate([Injectable()], target);
+	};
+};
@@ -0,0 +1,166 @@
+import { Injectable } from "../decorator/Injectable";
+
+export type DomainEventClass<E = any> = abstract new (...args: any[]) => E;
+
+export type DomainEventHandler<E = any> = (event: E) => any;
+
+/**
+ * "sequential" awaits one handler after the other in priority order,
+ * "parallel" starts every handler at once
+ */
+export type PublishMode = "sequential" | "parallel";
+
+export interface PublishOptions {
+	mode?: PublishMode;
+}
+
+export interface SubscribeOptions {
+	// Higher priorities run first
+	priority?: number;
+	// Groups subscriptions for `unsubscribe`, e.g. the provider instance
+	owner?: any;
+}
+
+/**
+ * Thrown by `publish` after every handler ran, if at least one failed
+ */
+export class DomainEventError extends Error {
+	constructor(
+		public readonly event: object,
+		public readonly errors: unknown[]
+	) {
+		super(
+			`${errors.length} handler(s) of ${event.constructor.name} failed: ${errors
+				.map((error) =>
+					error instanceof Error ? error.message : String(error)
+				)
+				.join(", ")}`
+		);
+		this.name = "DomainEventError";
+	}
+}
+
+interface DomainSubscription {
+	handler: DomainEventHandler;
+	priority: number;
+	owner?: any;
+}
+
+/**
+ * In-process publish/subscribe between providers. Unlike `TriggerEvent` the
+ * event instance reaches the handlers unchanged and `publish` resolves once
+ * every handler finished.
+ */
+@Injectable()
+export class DomainEventBus {
+	private readonly subscriptions = new Map<
+		DomainEventClass,
+		DomainSubscription[]
+	>();
+
+	/**
+	 * Subscribes to the events of the class and its subclasses. Returns a
+	 * function removing the subscription again.
+	 */
+	public subscribe<E>(
+		eventClass: DomainEventClass<E>,
+		handler: DomainEventHandler<E>,
+		options: SubscribeOptions = {}
+	): () => void {
+		const subscription: DomainSubscription = {
+			handler,
+			priority: options.priority ?? 0,
+			owner: options.owner,
+		};
+
+		const subscriptions = this.subscriptions.get(eventClass) || [];
+		this.subscriptions.set(eventClass, [...subscriptions, subscription]);
+
+		return () => this.remove((s) => s === subscription);
+	}
+
+	/**
+	 * Removes every subscription of the owner
+	 */
+	public unsubscribe(owner: any): void {
+		this.remove((s) => s.owner === owner);
+	}
+
+	/**
+	 * Runs every handler of the event and resolves when all of them finished.
+	 * A failing handler does not stop the others, the failures are thrown
+	 * together as a DomainEventError afterwards.
+	 */
+	public async publish<E extends object>(
+		event: E,
+		options: PublishOptions = {}
+	): Promise<void> {
+		const subscriptions = this.getSubscriptions(event);
+		const errors: unknown[] = [];
+
+		if (options.mode === "parallel") {
+			const results = await Promise.allSettled(
+				subscriptions.map(async (s) => s.handler(event))
+			);
+
+			for (const result of results) {
+				if (result.status === "rejected") {
+					errors.push(result.reason);
+				}
+			}
+		} else {
+			for (const subscription of subscriptions) {
+				try {
+					await subscription.handler(event);
+				} catch (error) {
+					errors.push(error);
+				}
+			}
+		}
+
+		if (errors.length > 0) {
+			throw new DomainEventError(event, errors);
+		}
+	}
+
+	public hasSubscribers(eventClass: DomainEventClass): boolean {
+		return (this.subscriptions.get(eventClass)?.length ?? 0) > 0;
+	}
+
+	public getSubscriberCount(): number {
+		return Array.from(this.subscriptions.values()).reduce(
+			(total, subscriptions) => total + subscriptions.length,
+			0
+		);
+	}
+
+	/**
+	 * The subscriptions of the class of the event and of its parent classes,
+	 * sorted by priority. More specific classes run first on equal priority.
+	 */
+	private getSubscriptions(event: object): DomainSubscription[] {
+		const subscriptions: DomainSubscription[] = [];
+		let prototype = Object.getPrototypeOf(event);
+
+		while (prototype && prototype !== Object.prototype) {
+			subscriptions.push(
+				...(this.subscriptions.get(prototype.constructor) || [])
+			);
+			prototype = Object.getPrototypeOf(prototype);
+		}
+
+		return subscriptions.sort((a, b) => b.priority - a.priority);
+	}
+
+	private remove(predicate: (subscription: DomainSubscription) => boolean) {
+		for (const [eventClass, subscriptions] of this.subscriptions) {
+			const remaining = subscriptions.filter((s) => !predicate(s));
+
+			if (remaining.length === 0) {
+				this.subscriptions.delete(eventClass);
+			} else {
+				this.subscriptions.set(eventClass, remaining);
+			}
+		}
+	}
+}
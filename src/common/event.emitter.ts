@@ -0,0 +1,95 @@
+import { isServer } from "./side";
+import { Inject, Injectable } from "./decorator/Injectable";
+import type {
+	ClientEventMap,
+	EventArgs,
+	EventName,
+	NuiMessageMap,
+	ServerEventMap,
+} from "./events/EventMap";
+import { EventLoader } from "./loader/Events/event.loader";
+import { Logger } from "./logger/logger";
+import { ChunkedTransfer } from "./transfer/chunked.transfer";
+
+/**
+ * Emits the events of the event maps with checked arguments. Net events
+ * above the chunk size of the ChunkedTransfer are sent in chunks, its `send`
+ * reports the progress of single transfers.
+ */
+@Injectable()
+export class EventEmitter {
+	@Inject(EventLoader)
+	private readonly eventLoader: EventLoader;
+
+	@Inject(ChunkedTransfer)
+	private readonly transfer: ChunkedTransfer;
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	/**
+	 * Triggers a local event on this side, reaching the pattern handlers too
+	 */
+	public emit<E extends EventName>(name: E, ...args: EventArgs<E>): void {
+		this.eventLoader.listen(name);
+		TriggerEvent(name, ...args);
+	}
+
+	/**
+	 * Sends a net event to a client, or to every client with -1. Server only.
+	 */
+	public emitNet<E extends keyof ClientEventMap>(
+		name: E,
+		target: number,
+		...args: ClientEventMap[E]
+	): void {
+		if (!isServer) {
+			throw new Error(
+				`Cannot send ${name} to client ${target} from a client, use emitServer`
+			);
+		}
+
+		this.sendNet(name, target, args);
+	}
+
+	/**
+	 * Sends a net event to every client. Server only.
+	 */
+	public broadcast<E extends keyof ClientEventMap>(
+		name: E,
+		...args: ClientEventMap[E]
+	): void {
+		this.emitNet(name, -1, ...args);
+	}
+
+	/**
+	 * Sends a net event to the server. Client only.
+	 */
+	public emitServer<E extends keyof ServerEventMap>(
+		name: E,
+		...args: ServerEventMap[E]
+	): void {
+		if (isServer) {
+			throw new Error(`Cannot send ${name} to the server from the server`);
+		}
+
+		this.sendNet(name, undefined, args);
+	}
+
+	/**
+	 * Sends a message to the web, received there through `ReceiveNUI`. Client
+	 * only.
+	 */
+	public sendNui<A extends keyof NuiMessageMap>(
+		action: A,
+		data: NuiMessageMap[A]
+	): void {
+		SendNUIMessage({ action, data });
+	}
+
+	private sendNet(name: string, target: number | undefined, args: any[]) {
+		this.transfer.send(name, target, args).catch((error) => {
+			this.logger.error(`Failed to send ${name}:`, error);
+		});
+	}
+}
@@ -0,0 +1,65 @@
+import type { SecurityViolation } from "../security/rate.limiter";
+
+/**
+ * Events handled on the server, mapped to the arguments they are emitted
+ * with. Handlers of net events additionally receive the source first.
+ *
+ * Resources add their own events through declaration merging:
+ *
+ * ```ts
+ * declare module "../common/events/EventMap" {
+ *   interface ServerEventMap {
+ *     "inventory:open": [inventoryId: number];
+ *   }
+ * }
+ * ```
+ */
+export interface ServerEventMap {
+	playerConnecting: [
+		name: string,
+		setKickReason: (reason: string) => void,
+		deferrals: Record<string, Function>,
+	];
+	playerJoining: [oldSource: string];
+	playerDropped: [reason: string];
+	onResourceStart: [resourceName: string];
+	debug: [data: string];
+	"Eterna:security:violation": [violation: SecurityViolation];
+}
+
+/**
+ * Events handled on the client, mapped to the arguments they are emitted with
+ */
+export interface ClientEventMap {
+	playerJoined: [];
+	playerLeft: [];
+}
+
+/**
+ * NUI callbacks the web calls through `SendNUI`, with the data it sends and
+ * the response of the `@OnNuiEvent` handler
+ */
+export interface NuiCallbackMap {
+	nuiLoaded: { data: {}; response: {} };
+	hideUI: { data: {}; response: {} };
+}
+
+/**
+ * Messages the client sends to the web, mapped to their data
+ */
+export interface NuiMessageMap {
+	setVisible: boolean;
+	setBrowserMode: boolean;
+}
+
+export type EventName = keyof ServerEventMap | keyof ClientEventMap;
+
+export type EventArgs<E extends EventName> = E extends keyof ServerEventMap
+	? ServerEventMap[E]
+	: E extends keyof ClientEventMap
+		? ClientEventMap[E]
+		: never;
+
+export type NuiMessage = {
+	[A in keyof NuiMessageMap]: { action: A; data: NuiMessageMap[A] };
+}[keyof NuiMessageMap];
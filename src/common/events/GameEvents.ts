@@ -0,0 +1,58 @@
+export enum GameEvents {
+	// Raw game events, received through gameEventTriggered
+	EntityDamage = "CEventNetworkEntityDamage",
+	PlayerEnteredVehicle = "CEventNetworkPlayerEnteredVehicle",
+	VehicleUndrivable = "CEventNetworkVehicleUndrivable",
+	PlayerSpawn = "CEventNetworkPlayerSpawn",
+	PlayerCollectedPickup = "CEventNetworkPlayerCollectedPickup",
+
+	// Derived by the GameEventLoader, the game has no event for these
+	PlayerKilled = "Eterna:playerKilled",
+	PlayerLeftVehicle = "Eterna:playerLeftVehicle",
+}
+
+export interface EntityDamageEvent {
+	victim: number;
+	attacker: number;
+	isFatal: boolean;
+	weaponHash: number;
+	isMelee: boolean;
+	raw: any[];
+}
+
+export interface PlayerKilledEvent {
+	// Peds, the attacker is -1 if there is none
+	victim: number;
+	attacker: number;
+	// Server ids, undefined if the ped is no player
+	victimServerId?: number;
+	killerServerId?: number;
+	weaponHash: number;
+	isMelee: boolean;
+}
+
+export interface VehicleEnteredEvent {
+	// Player index, not the server id
+	player: number;
+	vehicle: number;
+	raw: any[];
+}
+
+export interface VehicleLeftEvent {
+	player: number;
+	vehicle: number;
+}
+
+/**
+ * Payload a `@GameEvent` handler receives per game event. Events without a
+ * decoder receive the raw argument array.
+ */
+export type GameEventPayloads = {
+	[GameEvents.EntityDamage]: EntityDamageEvent;
+	[GameEvents.PlayerEnteredVehicle]: VehicleEnteredEvent;
+	[GameEvents.PlayerKilled]: PlayerKilledEvent;
+	[GameEvents.PlayerLeftVehicle]: VehicleLeftEvent;
+	[GameEvents.VehicleUndrivable]: any[];
+	[GameEvents.PlayerSpawn]: any[];
+	[GameEvents.PlayerCollectedPickup]: any[];
+};
@@ -1,3 +1,4 @@
 export enum EventsNui {
   NuiLoaded = "nuiLoaded",
+  HideUI = "hideUI",
 }
@@ -1,6 +1,7 @@
 export enum EventsServer {
 	// CFX Events
 	PlayerIsJoining = "playerConnecting",
+	PlayerJoining = "playerJoining",
 	PlayerLeft = "playerDropped",
 	onResourceStart = "onResourceStart",
 
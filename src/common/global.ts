@@ -25,6 +25,19 @@ export const createGlobalContainer = (): Container => {
 	return globalContainer;
 };
 
+/**
+ * Makes the given container the global one until the returned function is
+ * called, so instances created in between stay isolated from the real one
+ */
+export const useGlobalContainer = (container: Container): (() => void) => {
+	const previousContainer = _globalContainer;
+	_globalContainer = container;
+
+	return () => {
+		_globalContainer = previousContainer;
+	};
+};
+
 export const unloadGlobalContainer = () => {
 	_globalContainer = undefined;
 	Reflect.deleteMetadata(DecoratorMetadataKey.global, globalThis);
@@ -0,0 +1,44 @@
+/**
+ * Called once the providers of the owning module are instantiated and wired
+ */
+export interface OnModuleInit {
+	onModuleInit(): void | Promise<void>;
+}
+
+/**
+ * Called once every module is loaded and the application is starting
+ */
+export interface OnApplicationBootstrap {
+	onApplicationBootstrap(): void | Promise<void>;
+}
+
+/**
+ * Called before the shutdown of the application begins
+ */
+export interface BeforeShutdown {
+	beforeShutdown(): void | Promise<void>;
+}
+
+/**
+ * Called after the handlers of the owning module have been torn down
+ */
+export interface OnModuleDestroy {
+	onModuleDestroy(): void | Promise<void>;
+}
+
+/**
+ * Called when the player scope owning the instance is disposed
+ */
+export interface OnScopeDestroy {
+	onScopeDestroy(): void | Promise<void>;
+}
+
+export type LifecycleHook =
+	| "onModuleInit"
+	| "onApplicationBootstrap"
+	| "beforeShutdown"
+	| "onModuleDestroy"
+	| "onScopeDestroy";
+
+export const hasLifecycleHook = (instance: any, hook: LifecycleHook): boolean =>
+	!!instance && typeof instance[hook] === "function";
@@ -0,0 +1,84 @@
+import { DecoratorMetadataKey } from "../../constants";
+import type { DomainEventMetadata } from "../../decorator/Events/OnDomainEvent";
+import type { EventMetadata } from "../../decorator/Events/OnEvent";
+import { Inject, Injectable } from "../../decorator/Injectable";
+import { DomainEventBus } from "../../domain/domain.event.bus";
+import { Logger } from "../../logger/logger";
+import type { MiddlewareFactory } from "../../middleware/middleware";
+import { getMethodMetadata } from "../../reflect";
+
+/**
+ * Subscribes the methods decorated with `@OnDomainEvent` to the
+ * DomainEventBus, wrapped in the event middleware
+ */
+@Injectable()
+export class DomainEventLoader {
+	private readonly loadedProviders = new Set<any>();
+
+	@Inject("MiddlewareFactory")
+	private readonly middlewareFactory: MiddlewareFactory;
+
+	@Inject(DomainEventBus)
+	private readonly domainEventBus: DomainEventBus;
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public load(provider: any): void {
+		if (this.loadedProviders.has(provider)) {
+			return;
+		}
+
+		const domainMethodList = getMethodMetadata<
+			Record<string, DomainEventMetadata[]>
+		>(DecoratorMetadataKey.domainEvent, provider);
+
+		if (!domainMethodList || Object.keys(domainMethodList).length === 0) {
+			return;
+		}
+
+		for (const methodName of Object.keys(domainMethodList)) {
+			if (typeof provider[methodName] !== "function") {
+				this.logger.error(
+					`[domain] Method ${methodName} not found or not a function in ${provider.constructor.name}`
+				);
+				continue;
+			}
+
+			for (const metadata of domainMethodList[methodName]) {
+				// Never networked, so the source and schema middleware stay out
+				const eventMetadata: EventMetadata = {
+					name: metadata.eventClass.name,
+					networked: false,
+					context: metadata.context,
+					methodName,
+				};
+
+				const handler = this.middlewareFactory.create(
+					eventMetadata,
+					provider[methodName].bind(provider)
+				);
+
+				this.domainEventBus.subscribe(metadata.eventClass, handler, {
+					priority: metadata.priority,
+					owner: provider,
+				});
+
+				this.logger.debug(
+					`[domain] Subscribed ${provider.constructor.name}.${methodName} to ${metadata.eventClass.name}`
+				);
+			}
+		}
+
+		this.loadedProviders.add(provider);
+	}
+
+	public unload(provider?: any): void {
+		const providers = provider ? [provider] : Array.from(this.loadedProviders);
+
+		for (const loaded of providers) {
+			this.domainEventBus.unsubscribe(loaded);
+			this.loadedProviders.delete(loaded);
+		}
+	}
+}
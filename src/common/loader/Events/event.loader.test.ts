@@ -0,0 +1,131 @@
+import "reflect-metadata";
+import { afterEach, expect, test } from "bun:test";
+import { OnEvent, StopPropagation } from "../../decorator/Events/OnEvent";
+import { Provider } from "../../decorator/Provider";
+import { Test, TestingModule } from "../../testing/test";
+
+declare module "../../events/EventMap" {
+	interface ServerEventMap {
+		"lobby:ready": [team: string];
+		"lobby:start": [];
+		"lobby:reward": [team: string];
+	}
+}
+
+const calls: string[] = [];
+
+let testingModule: TestingModule | undefined;
+
+afterEach(async () => {
+	calls.length = 0;
+	await testingModule?.close();
+	testingModule = undefined;
+});
+
+test("runs the handlers of an event by priority", async () => {
+	@Provider()
+	class LobbyProvider {
+		@OnEvent("lobby:ready", { priority: 1 })
+		announce(source: number, team: string) {
+			calls.push(`announce:${team}`);
+		}
+
+		@OnEvent("lobby:ready", { priority: 10 })
+		check(source: number, team: string) {
+			calls.push(`check:${team}`);
+		}
+
+		@OnEvent("lobby:ready")
+		log(source: number, team: string) {
+			calls.push(`log:${team}`);
+		}
+	}
+
+	testingModule = await Test.createTestingModule({
+		providers: [LobbyProvider],
+	}).compile();
+
+	await testingModule.emitNet("lobby:ready", "red");
+	expect(calls).toEqual(["check:red", "announce:red", "log:red"]);
+});
+
+test("StopPropagation skips the handlers with a lower priority", async () => {
+	@Provider()
+	class LobbyProvider {
+		@OnEvent("lobby:start", { priority: 5 })
+		guard() {
+			calls.push("guard");
+			return StopPropagation;
+		}
+
+		@OnEvent("lobby:start", { priority: 10 })
+		prepare() {
+			calls.push("prepare");
+		}
+
+		@OnEvent("lobby:start")
+		start() {
+			calls.push("start");
+		}
+	}
+
+	testingModule = await Test.createTestingModule({
+		providers: [LobbyProvider],
+	}).compile();
+
+	await testingModule.emitNet("lobby:start");
+	expect(calls).toEqual(["prepare", "guard"]);
+});
+
+test("an async once handler runs for a single one of two quick events", async () => {
+	@Provider()
+	class RewardProvider {
+		@OnEvent("lobby:reward", { once: true })
+		async reward(source: number, team: string) {
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			calls.push(team);
+		}
+	}
+
+	testingModule = await Test.createTestingModule({
+		providers: [RewardProvider],
+	}).compile();
+	const player = await testingModule.getPlayer();
+
+	player.emitNet("lobby:reward", "a");
+	player.emitNet("lobby:reward", "b");
+	await testingModule.emulator.flush();
+	await new Promise((resolve) => setTimeout(resolve, 20));
+
+	expect(calls).toEqual(["a"]);
+	expect(testingModule.emulator.server.getListenerCount("lobby:reward")).toBe(
+		0
+	);
+});
+
+test("a once handler which failed waits for the next event", async () => {
+	let failing = true;
+
+	@Provider()
+	class RewardProvider {
+		@OnEvent("lobby:reward", { once: true })
+		async reward(source: number, team: string) {
+			await Promise.resolve();
+			if (failing) {
+				throw new Error("not ready");
+			}
+			calls.push(team);
+		}
+	}
+
+	testingModule = await Test.createTestingModule({
+		providers: [RewardProvider],
+	}).compile();
+
+	await testingModule.emitNet("lobby:reward", "a");
+	failing = false;
+	await testingModule.emitNet("lobby:reward", "b");
+	await testingModule.emitNet("lobby:reward", "c");
+
+	expect(calls).toEqual(["b"]);
+});
@@ -1,20 +1,50 @@
+import { isServer } from "../../side";
 import { DecoratorMetadataKey } from "../../constants";
-import { EventMetadata } from "../../decorator/Events/OnEvent";
+import { EventMetadata, StopPropagation } from "../../decorator/Events/OnEvent";
 import { Inject, Injectable } from "../../decorator/Injectable";
+import { EventsServer } from "../../events/Server";
 import { Logger } from "../../logger/logger";
-import { MiddlewareFactory } from "../../middleware/middleware";
+import {
+	HandlerSkipped,
+	type MiddlewareFactory,
+} from "../../middleware/middleware";
+import { EventRecorder } from "../../recording/event.recorder";
 import { getMethodMetadata } from "../../reflect";
+import { ChunkedTransfer } from "../../transfer/chunked.transfer";
+import { EventPatternTrie, isEventPattern } from "./event.pattern.trie";
 
 interface EventBinding {
-	handler: Function;
+	// The event name or pattern the binding is stored under
+	name: string;
+	method: Function;
+	// Middleware wrapped methods by concrete event name, patterns create them
+	// on the first matching event
+	handlers: Map<string, Function>;
 	metadata: EventMetadata;
 	provider: any;
 	methodName: string;
 }
 
+interface EventDispatcher {
+	listener: (...args: any[]) => void;
+	// Registered as net safe, i.e. a binding is networked
+	networked: boolean;
+	// Removes the receiver of chunked transfers, set along with networked
+	stopReceiving?: () => void;
+}
+
+// Raised by the server itself, CFX still sets the player as their source
+const internalEvents = new Set<string>([
+	EventsServer.PlayerIsJoining,
+	EventsServer.PlayerJoining,
+	EventsServer.PlayerLeft,
+]);
+
 @Injectable()
 export class EventLoader {
 	private events: Map<string, EventBinding[]> = new Map();
+	private dispatchers = new Map<string, EventDispatcher>();
+	private patterns = new EventPatternTrie();
 	private loadedProviders = new Set<any>();
 
 	@Inject("MiddlewareFactory")
@@ -23,6 +53,12 @@ export class EventLoader {
 	@Inject(Logger)
 	private readonly logger: Logger;
 
+	@Inject(EventRecorder)
+	private readonly recorder: EventRecorder;
+
+	@Inject(ChunkedTransfer)
+	private readonly transfer: ChunkedTransfer;
+
 	public load(provider: any): void {
 		if (this.loadedProviders.has(provider)) {
 			this.logger.debug(
@@ -88,23 +124,33 @@ export class EventLoader {
 		methodName: string
 	): void {
 		const eventName = eventMetadata.name.toString();
+		const pattern = isEventPattern(eventName);
+
+		if (pattern) {
+			// Throws for invalid patterns before anything is registered
+			this.patterns.add(eventName);
+		}
 
 		if (!this.events.has(eventName)) {
 			this.events.set(eventName, []);
 		}
 
-		const methodWithMiddleware = this.middlewareFactory.create(
-			eventMetadata,
-			method
-		);
-
 		const binding: EventBinding = {
-			handler: methodWithMiddleware,
+			name: eventName,
+			method,
+			handlers: new Map(),
 			metadata: eventMetadata,
 			provider,
 			methodName,
 		};
 
+		if (!pattern) {
+			binding.handlers.set(
+				eventName,
+				this.middlewareFactory.create(eventMetadata, method)
+			);
+		}
+
 		// Check for duplicate handlers
 		const existingBindings = this.events.get(eventName)!;
 		const isDuplicate = existingBindings.some(
@@ -118,14 +164,290 @@ export class EventLoader {
 			return;
 		}
 
-		addEventListener(eventName, methodWithMiddleware, eventMetadata.networked);
-		existingBindings.push(binding);
+		this.insertBinding(binding);
 
 		this.logger.debug(
 			`[events] Registered handler ${provider.constructor.name}.${methodName} for event ${eventName}`
 		);
 	}
 
+	/**
+	 * Adds the binding behind the ones of the same or a higher priority and
+	 * updates the dispatchers it runs in
+	 */
+	private insertBinding(binding: EventBinding): void {
+		const eventName = binding.name;
+		const pattern = isEventPattern(eventName);
+
+		if (pattern) {
+			this.patterns.add(eventName);
+		}
+
+		if (!this.events.has(eventName)) {
+			this.events.set(eventName, []);
+		}
+
+		// Sorted by priority, handlers with the same priority keep their order
+		const bindings = this.events.get(eventName)!;
+		const priority = binding.metadata.priority ?? 0;
+		const index = bindings.findIndex(
+			(b) => (b.metadata.priority ?? 0) < priority
+		);
+
+		if (index === -1) {
+			bindings.push(binding);
+		} else {
+			bindings.splice(index, 0, binding);
+		}
+
+		if (pattern) {
+			for (const name of this.getPatternDispatchers(eventName)) {
+				this.updateDispatcher(name);
+			}
+		} else {
+			this.updateDispatcher(eventName);
+		}
+	}
+
+	/**
+	 * Every event name has one dispatcher running its bindings in order. It is
+	 * registered as a net safe listener if a binding is networked. CFX tracks
+	 * net safety per event name, not per listener, so whether an event came
+	 * from the network is read from its source.
+	 */
+	private updateDispatcher(eventName: string): void {
+		const bindings = this.getBindings(eventName);
+		const networked = bindings.some((b) => b.metadata.networked);
+		const dispatcher = this.dispatchers.get(eventName);
+
+		if (dispatcher) {
+			if (bindings.length > 0 && dispatcher.networked === networked) {
+				return;
+			}
+
+			// Registered again below with the new net safety
+			removeEventListener(eventName, dispatcher.listener);
+			dispatcher.stopReceiving?.();
+			this.dispatchers.delete(eventName);
+		}
+
+		if (bindings.length === 0) {
+			return;
+		}
+
+		const listener = (...args: any[]) =>
+			this.dispatch(eventName, args, this.isNetworkEvent(eventName));
+
+		addEventListener(eventName, listener, networked);
+		this.dispatchers.set(eventName, {
+			listener,
+			networked,
+			// Payloads above the chunk size arrive through the transfer instead
+			stopReceiving: networked
+				? this.transfer.receive(eventName, {
+						onPayload: (args, source) =>
+							this.withSource(source, () =>
+								this.dispatch(eventName, args, true)
+							),
+					})
+				: undefined,
+		});
+	}
+
+	/**
+	 * Network events carry the sending player as source on the server and
+	 * 65535 on the clients, local events have an empty source
+	 */
+	private isNetworkEvent(eventName: string): boolean {
+		const source = (globalThis as any).source;
+
+		if (source === undefined || source === null || source === "") {
+			return false;
+		}
+
+		return !(isServer && internalEvents.has(eventName));
+	}
+
+	private async dispatch(
+		eventName: string,
+		args: any[],
+		remote: boolean
+	): Promise<void> {
+		this.recorder.record("event", eventName, args, remote);
+
+		// The source global is only valid until the first handler awaits
+		const source = (globalThis as any).source;
+		const bindings = this.getBindings(eventName);
+
+		for (const binding of bindings) {
+			if (remote && !binding.metadata.networked) {
+				continue;
+			}
+
+			// Removed by a previous handler, e.g. through a module unload
+			if (!this.events.get(binding.name)?.includes(binding)) {
+				continue;
+			}
+
+			const handler = this.getHandler(binding, eventName);
+			let result: any;
+
+			// Claimed before the handler awaits, so an event arriving meanwhile
+			// does not run it a second time
+			const claimed = !!binding.metadata.once;
+			if (claimed) {
+				this.removeBinding(binding.name, binding);
+			}
+
+			try {
+				result = await this.withSource(source, () => handler(...args));
+			} catch (error) {
+				// Already logged by the middleware, the remaining handlers still run
+				if (claimed) {
+					this.restoreBinding(binding);
+				}
+				continue;
+			}
+
+			// Rejected by a middleware, a once binding waits for a valid event
+			if (result === HandlerSkipped) {
+				if (claimed) {
+					this.restoreBinding(binding);
+				}
+				continue;
+			}
+
+			if (result === StopPropagation) {
+				this.logger.debug(
+					`[events] ${binding.provider.constructor.name}.${binding.methodName} stopped the propagation of ${eventName}`
+				);
+				break;
+			}
+		}
+	}
+
+	/**
+	 * The bindings of the event name and of every pattern matching it, sorted
+	 * by priority. Bindings of the name itself run first on equal priority.
+	 */
+	private getBindings(eventName: string): EventBinding[] {
+		const bindings = [...(this.events.get(eventName) || [])];
+		const patterns = this.patterns.match(eventName);
+
+		if (patterns.length === 0) {
+			return bindings;
+		}
+
+		for (const pattern of patterns) {
+			if (pattern !== eventName) {
+				bindings.push(...(this.events.get(pattern) || []));
+			}
+		}
+
+		return bindings.sort(
+			(a, b) => (b.metadata.priority ?? 0) - (a.metadata.priority ?? 0)
+		);
+	}
+
+	/**
+	 * Pattern handlers receive the concrete event name as first argument, so
+	 * every matched name gets its own middleware chain
+	 */
+	private getHandler(binding: EventBinding, eventName: string): Function {
+		let handler = binding.handlers.get(eventName);
+
+		if (!handler) {
+			handler = this.middlewareFactory.create(
+				{ ...binding.metadata, name: eventName },
+				(...args: any[]) => binding.method(eventName, ...args)
+			);
+			binding.handlers.set(eventName, handler);
+		}
+
+		return handler;
+	}
+
+	/**
+	 * The event names with a dispatcher matched by the pattern
+	 */
+	private getPatternDispatchers(pattern: string): string[] {
+		return Array.from(this.dispatchers.keys()).filter((name) =>
+			this.patterns.match(name).includes(pattern)
+		);
+	}
+
+	/**
+	 * CFX only delivers events with a listener, so events matched only by
+	 * patterns need a dispatcher before they are triggered. The EventEmitter
+	 * does this for the events it emits, net events have to be announced on
+	 * the receiving side.
+	 */
+	public listen(eventName: string): void {
+		if (
+			this.dispatchers.has(eventName) ||
+			isEventPattern(eventName) ||
+			this.patterns.match(eventName).length === 0
+		) {
+			return;
+		}
+
+		this.updateDispatcher(eventName);
+	}
+
+	private withSource<T>(source: any, fn: () => T): T {
+		const globals = globalThis as any;
+		const previousSource = globals.source;
+		globals.source = source;
+
+		try {
+			return fn();
+		} finally {
+			globals.source = previousSource;
+		}
+	}
+
+	private removeBinding(eventName: string, binding: EventBinding): void {
+		const remaining = (this.events.get(eventName) || []).filter(
+			(b) => b !== binding
+		);
+
+		if (!isEventPattern(eventName)) {
+			this.setBindings(eventName, remaining);
+			this.updateDispatcher(eventName);
+			return;
+		}
+
+		// Collected before the pattern is removed from the trie
+		const affected = this.getPatternDispatchers(eventName);
+
+		this.setBindings(eventName, remaining);
+		if (remaining.length === 0) {
+			this.patterns.remove(eventName);
+		}
+
+		for (const name of affected) {
+			this.updateDispatcher(name);
+		}
+	}
+
+	/**
+	 * Puts back a claimed once binding whose handler did not complete, unless
+	 * its provider was unloaded meanwhile
+	 */
+	private restoreBinding(binding: EventBinding): void {
+		if (this.loadedProviders.has(binding.provider)) {
+			this.insertBinding(binding);
+		}
+	}
+
+	private setBindings(eventName: string, bindings: EventBinding[]): void {
+		if (bindings.length === 0) {
+			this.events.delete(eventName);
+		} else {
+			this.events.set(eventName, bindings);
+		}
+	}
+
 	public unload(provider?: any): void {
 		if (provider) {
 			this.unloadProvider(provider);
@@ -144,29 +466,13 @@ export class EventLoader {
 
 		let unloadedCount = 0;
 
-		for (const [eventName, bindings] of this.events.entries()) {
-			const providerBindings = bindings.filter((b) => b.provider === provider);
-
-			for (const binding of providerBindings) {
-				try {
-					removeEventListener(eventName, binding.handler);
+		for (const [eventName, bindings] of Array.from(this.events.entries())) {
+			for (const binding of bindings) {
+				if (binding.provider === provider) {
+					this.removeBinding(eventName, binding);
 					unloadedCount++;
-				} catch (error) {
-					this.logger.error(
-						`[events] Failed to remove event listener for ${eventName}:`,
-						error
-					);
 				}
 			}
-
-			// Remove provider bindings from the list
-			const remainingBindings = bindings.filter((b) => b.provider !== provider);
-
-			if (remainingBindings.length === 0) {
-				this.events.delete(eventName);
-			} else {
-				this.events.set(eventName, remainingBindings);
-			}
 		}
 
 		this.loadedProviders.delete(provider);
@@ -176,23 +482,23 @@ export class EventLoader {
 	}
 
 	private unloadAll(): void {
-		let totalUnloaded = 0;
+		const totalUnloaded = this.getHandlerCount();
 
-		for (const [eventName, bindings] of this.events.entries()) {
-			for (const binding of bindings) {
-				try {
-					removeEventListener(eventName, binding.handler);
-					totalUnloaded++;
-				} catch (error) {
-					this.logger.error(
-						`[events] Failed to remove event listener for ${eventName}:`,
-						error
-					);
-				}
+		for (const [eventName, dispatcher] of this.dispatchers.entries()) {
+			try {
+				removeEventListener(eventName, dispatcher.listener);
+				dispatcher.stopReceiving?.();
+			} catch (error) {
+				this.logger.error(
+					`[events] Failed to remove event listener for ${eventName}:`,
+					error
+				);
 			}
 		}
 
+		this.dispatchers.clear();
 		this.events.clear();
+		this.patterns = new EventPatternTrie();
 		this.loadedProviders.clear();
 		this.logger.info(`[events] Unloaded all ${totalUnloaded} event handlers`);
 	}
@@ -212,7 +518,7 @@ export class EventLoader {
 	}
 
 	public hasEventHandlers(eventName: string): boolean {
-		return this.events.has(eventName) && this.events.get(eventName)!.length > 0;
+		return this.getBindings(eventName).length > 0;
 	}
 
 	public getHandlerCount(): number {
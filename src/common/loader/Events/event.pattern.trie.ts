@@ -0,0 +1,138 @@
+/**
+ * Separates the namespaces of an event name, e.g. `inventory:item:added`
+ */
+export const EventNamespaceSeparator = ":";
+
+interface PatternNode {
+	children: Map<string, PatternNode>;
+	// The pattern ending at this node
+	pattern?: string;
+}
+
+const createNode = (): PatternNode => ({ children: new Map() });
+
+/**
+ * Event names with a `*` segment, matching exactly one segment, or a `**`
+ * segment, matching one or more segments
+ */
+export const isEventPattern = (name: string): boolean => name.includes("*");
+
+export class InvalidEventPatternError extends Error {
+	constructor(public readonly pattern: string) {
+		super(
+			`Invalid event pattern '${pattern}', wildcards have to be a whole segment like 'inventory:*' or 'inventory:**'`
+		);
+		this.name = "InvalidEventPatternError";
+	}
+}
+
+/**
+ * Event patterns stored by segment, so matching a name only walks the
+ * segments of the name instead of every registered pattern
+ */
+export class EventPatternTrie {
+	private readonly root = createNode();
+	private size = 0;
+
+	public add(pattern: string): void {
+		let node = this.root;
+
+		for (const segment of this.split(pattern)) {
+			let child = node.children.get(segment);
+			if (!child) {
+				child = createNode();
+				node.children.set(segment, child);
+			}
+			node = child;
+		}
+
+		if (node.pattern === undefined) {
+			node.pattern = pattern;
+			this.size++;
+		}
+	}
+
+	public remove(pattern: string): void {
+		const path: [PatternNode, string][] = [];
+		let node: PatternNode | undefined = this.root;
+
+		for (const segment of this.split(pattern)) {
+			path.push([node, segment]);
+			node = node.children.get(segment);
+			if (!node) {
+				return;
+			}
+		}
+
+		if (node.pattern === undefined) {
+			return;
+		}
+
+		node.pattern = undefined;
+		this.size--;
+
+		// Prunes the nodes no other pattern passes through
+		for (let index = path.length - 1; index >= 0; index--) {
+			const [parent, segment] = path[index];
+			const child = parent.children.get(segment)!;
+
+			if (child.pattern !== undefined || child.children.size > 0) {
+				break;
+			}
+			parent.children.delete(segment);
+		}
+	}
+
+	/**
+	 * Returns the patterns matching the concrete event name
+	 */
+	public match(name: string): string[] {
+		if (this.size === 0) {
+			return [];
+		}
+
+		const segments = name.split(EventNamespaceSeparator);
+		const matches = new Set<string>();
+
+		const visit = (node: PatternNode, index: number): void => {
+			if (index === segments.length) {
+				if (node.pattern !== undefined) {
+					matches.add(node.pattern);
+				}
+				return;
+			}
+
+			const exact = node.children.get(segments[index]);
+			if (exact) {
+				visit(exact, index + 1);
+			}
+
+			const single = node.children.get("*");
+			if (single) {
+				visit(single, index + 1);
+			}
+
+			const deep = node.children.get("**");
+			if (deep) {
+				for (let end = index + 1; end <= segments.length; end++) {
+					visit(deep, end);
+				}
+			}
+		};
+
+		visit(this.root, 0);
+		return Array.from(matches);
+	}
+
+	private split(pattern: string): string[] {
+		const segments = pattern.split(EventNamespaceSeparator);
+
+		for (const segment of segments) {
+			if (segment.includes("*") && segment !== "*" && segment !== "**") {
+				throw new InvalidEventPatternError(pattern);
+			}
+		}
+
+		return segments;
+	}
+}
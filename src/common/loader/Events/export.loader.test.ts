@@ -0,0 +1,102 @@
+import "reflect-metadata";
+import { afterEach, expect, test } from "bun:test";
+import { Export } from "../../decorator/Export";
+import { Module } from "../../decorator/Module";
+import { Provider } from "../../decorator/Provider";
+import { LogLevel } from "../../logger/log-level";
+import { HandlerSkipped, type Middleware } from "../../middleware/middleware";
+import { Test, TestingModule } from "../../testing/test";
+
+@Provider()
+class BankProvider {
+	@Export()
+	getBalance(identifier: string) {
+		return `${identifier}:100`;
+	}
+
+	@Export("deposit")
+	async addMoney(amount: number) {
+		return amount * 2;
+	}
+}
+
+@Module({ name: "Bank", providers: [BankProvider] })
+class BankModule {}
+
+let testingModule: TestingModule | undefined;
+
+afterEach(async () => {
+	await testingModule?.close();
+	testingModule = undefined;
+});
+
+const getExport = (exportName: string): ((...args: any[]) => any) => {
+	const runtime = testingModule!.emulator.getLocalRuntime()!;
+	return runtime.getExport(testingModule!.emulator.resourceName, exportName)!;
+};
+
+test("registers the exports of a provider under their names", async () => {
+	testingModule = await Test.createTestingModule({
+		imports: [BankModule],
+	}).compile();
+
+	expect(await getExport("getBalance")("license:1")).toBe("license:1:100");
+	expect(await getExport("deposit")(21)).toBe(42);
+	expect(getExport("addMoney")).toBeUndefined();
+});
+
+test("keeps the first provider of an export name", async () => {
+	@Provider()
+	class OtherBankProvider {
+		@Export("getBalance")
+		balance() {
+			return 0;
+		}
+	}
+
+	testingModule = await Test.createTestingModule({
+		imports: [BankModule],
+		providers: [OtherBankProvider],
+	}).compile();
+
+	expect(await getExport("getBalance")("license:1")).toBe("license:1:100");
+	expect(
+		testingModule.logger.hasLog(
+			"Export 'getBalance' is already provided by BankProvider",
+			LogLevel.Error
+		)
+	).toBe(true);
+});
+
+test("rejects calls to the export of an unloaded module", async () => {
+	testingModule = await Test.createTestingModule({
+		imports: [BankModule],
+	}).compile();
+	const getBalance = getExport("getBalance");
+
+	const { ModuleLoader } = await import("../module.loader");
+	await testingModule
+		.get<InstanceType<typeof ModuleLoader>>(ModuleLoader)
+		.unload("Bank");
+
+	expect(() => getBalance("license:1")).toThrow(
+		"Export 'getBalance' of resource 'eterna' is not loaded"
+	);
+});
+
+test("rejects calls a middleware skipped instead of returning the marker", async () => {
+	const skipping = {
+		create: (): Middleware => () => HandlerSkipped,
+	};
+
+	testingModule = await Test.createTestingModule({
+		imports: [BankModule],
+	})
+		.overrideProvider("MiddlewareFactory")
+		.useValue(skipping)
+		.compile();
+
+	expect(() => getExport("getBalance")("license:1")).toThrow(
+		"Export 'getBalance' of resource 'eterna' was rejected"
+	);
+});
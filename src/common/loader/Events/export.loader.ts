@@ -0,0 +1,134 @@
+import { DecoratorMetadataKey } from "../../constants";
+import { ExportMetadata } from "../../decorator/Export";
+import { Inject, Injectable } from "../../decorator/Injectable";
+import { Logger } from "../../logger/logger";
+import {
+	HandlerSkipped,
+	type Middleware,
+	type MiddlewareFactory,
+} from "../../middleware/middleware";
+import { getMethodMetadata } from "../../reflect";
+import { getCfxExports } from "../../resource.exports";
+
+interface ExportBinding {
+	handler: Middleware;
+	metadata: ExportMetadata;
+	provider: any;
+}
+
+@Injectable()
+export class ExportLoader {
+	private bindings = new Map<string, ExportBinding>();
+	// CFX can not remove an export again, so every name is registered once
+	// and dispatches to the currently loaded binding
+	private registeredExports = new Set<string>();
+
+	@Inject("MiddlewareFactory")
+	private readonly middlewareFactory: MiddlewareFactory;
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public load(provider: any): void {
+		const exportMethodList = getMethodMetadata<Record<string, ExportMetadata>>(
+			DecoratorMetadataKey.export,
+			provider
+		);
+
+		if (!exportMethodList) {
+			return;
+		}
+
+		for (const [methodName, metadata] of Object.entries(exportMethodList)) {
+			if (typeof provider[methodName] !== "function") {
+				this.logger.error(
+					`[exports] Method ${methodName} not found or not a function in ${provider.constructor.name}`
+				);
+				continue;
+			}
+
+			this.registerExport(provider, methodName, metadata);
+		}
+	}
+
+	private registerExport(
+		provider: any,
+		methodName: string,
+		metadata: ExportMetadata
+	): void {
+		const existing = this.bindings.get(metadata.name);
+
+		if (existing) {
+			this.logger.error(
+				`[exports] Export '${metadata.name}' is already provided by ${existing.provider.constructor.name}`
+			);
+			return;
+		}
+
+		const handler = this.middlewareFactory.create(
+			{
+				name: metadata.name,
+				networked: false,
+				context: false,
+				methodName,
+			},
+			provider[methodName].bind(provider)
+		);
+
+		this.bindings.set(metadata.name, { handler, metadata, provider });
+
+		if (!this.registeredExports.has(metadata.name)) {
+			getCfxExports()(metadata.name, (...args: any[]) =>
+				this.dispatch(metadata.name, args)
+			);
+			this.registeredExports.add(metadata.name);
+		}
+
+		this.logger.debug(
+			`[exports] Registered export ${metadata.name} (${provider.constructor.name}.${methodName})`
+		);
+	}
+
+	private dispatch(name: string, args: any[]): any {
+		const binding = this.bindings.get(name);
+
+		if (!binding) {
+			throw new Error(
+				`Export '${name}' of resource '${GetCurrentResourceName()}' is not loaded`
+			);
+		}
+
+		const result = binding.handler(...args);
+
+		return result instanceof Promise
+			? result.then((value) => this.checkSkipped(name, value))
+			: this.checkSkipped(name, result);
+	}
+
+	/**
+	 * The calling resource can not tell the skip marker of a middleware from
+	 * a result, it gets an error instead
+	 */
+	private checkSkipped(name: string, result: any): any {
+		if (result === HandlerSkipped) {
+			throw new Error(
+				`Export '${name}' of resource '${GetCurrentResourceName()}' was rejected`
+			);
+		}
+
+		return result;
+	}
+
+	public unload(provider?: any): void {
+		for (const [name, binding] of this.bindings.entries()) {
+			if (!provider || binding.provider === provider) {
+				this.bindings.delete(name);
+				this.logger.debug(`[exports] Unregistered export ${name}`);
+			}
+		}
+	}
+
+	public getRegisteredExports(): string[] {
+		return Array.from(this.bindings.keys());
+	}
+}
@@ -0,0 +1,78 @@
+import { GameEvents } from "../../events/GameEvents";
+import type {
+	EntityDamageEvent,
+	PlayerKilledEvent,
+	VehicleEnteredEvent,
+} from "../../events/GameEvents";
+
+/**
+ * Client natives used by the game event loader. The server build only knows
+ * the server typings, which lack or differ for these.
+ */
+export interface GameEventNatives {
+	IsPedAPlayer(ped: number): boolean;
+	NetworkGetPlayerIndexFromPed(ped: number): number;
+	GetPlayerServerId(player: number): number;
+	GetPlayerPed(player: number): number;
+	IsPedInVehicle(ped: number, vehicle: number, atGetIn: boolean): boolean;
+}
+
+export const getGameEventNatives = (): GameEventNatives => globalThis as any;
+
+/**
+ * Argument layout of CEventNetworkEntityDamage:
+ * 0 victim, 1 attacker, 5 fatal, 6 weapon hash, 11 melee
+ */
+export const decodeEntityDamage = (args: any[]): EntityDamageEvent => ({
+	victim: args[0],
+	attacker: args[1],
+	isFatal: args[5] === 1,
+	weaponHash: args[6] >>> 0,
+	isMelee: args[11] === 1,
+	raw: args,
+});
+
+/**
+ * Argument layout of CEventNetworkPlayerEnteredVehicle: 0 player, 1 vehicle
+ */
+export const decodeVehicleEntered = (args: any[]): VehicleEnteredEvent => ({
+	player: args[0],
+	vehicle: args[1],
+	raw: args,
+});
+
+const getServerId = (ped: number): number | undefined => {
+	const natives = getGameEventNatives();
+
+	if (ped <= 0 || !natives.IsPedAPlayer(ped)) {
+		return undefined;
+	}
+
+	return natives.GetPlayerServerId(natives.NetworkGetPlayerIndexFromPed(ped));
+};
+
+export const decodePlayerKilled = (
+	damage: EntityDamageEvent
+): PlayerKilledEvent => ({
+	victim: damage.victim,
+	attacker: damage.attacker,
+	victimServerId: getServerId(damage.victim),
+	killerServerId: getServerId(damage.attacker),
+	weaponHash: damage.weaponHash,
+	isMelee: damage.isMelee,
+});
+
+const decoders: Partial<Record<string, (args: any[]) => any>> = {
+	[GameEvents.EntityDamage]: decodeEntityDamage,
+	[GameEvents.PlayerEnteredVehicle]: decodeVehicleEntered,
+};
+
+/**
+ * Returns the typed payload of the game event, or the raw arguments if there
+ * is no decoder for it
+ */
+export const decodeGameEvent = (name: string, args: any[]): any => {
+	const decoder = decoders[name];
+
+	return decoder ? decoder(args) : args;
+};
@@ -0,0 +1,236 @@
+import { DecoratorMetadataKey } from "../../constants";
+import { EventMetadata } from "../../decorator/Events/OnEvent";
+import { GameEventMetadata } from "../../decorator/Events/OnGameEvent";
+import { Inject, Injectable } from "../../decorator/Injectable";
+import { GameEvents } from "../../events/GameEvents";
+import type {
+	EntityDamageEvent,
+	VehicleEnteredEvent,
+} from "../../events/GameEvents";
+import { Logger } from "../../logger/logger";
+import type { MiddlewareFactory } from "../../middleware/middleware";
+import { getMethodMetadata } from "../../reflect";
+import {
+	decodeGameEvent,
+	decodePlayerKilled,
+	getGameEventNatives,
+} from "./game.event.decoder";
+import { GameEventCallback } from "./types";
+
+interface GameEventBinding {
+	handler: GameEventCallback;
+	provider: any;
+	methodName: string;
+}
+
+// How often a vehicle is checked after a player entered it
+const VEHICLE_EXIT_INTERVAL = 250;
+
+/**
+ * Listens once to gameEventTriggered and routes the decoded payloads to the
+ * methods decorated with `@GameEvent`
+ */
+@Injectable()
+export class GameEventLoader {
+	private readonly bindings = new Map<string, GameEventBinding[]>();
+	private readonly loadedProviders = new Set<any>();
+	private readonly vehicleWatches = new Map<
+		string,
+		ReturnType<typeof setInterval>
+	>();
+	private listener: ((name: string, args: any[]) => void) | undefined;
+
+	@Inject("MiddlewareFactory")
+	private readonly middlewareFactory: MiddlewareFactory;
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public load(provider: any): void {
+		if (this.loadedProviders.has(provider)) {
+			return;
+		}
+
+		const gameEventMethodList = getMethodMetadata<
+			Record<string, GameEventMetadata[]>
+		>(DecoratorMetadataKey.gameEvent, provider);
+
+		if (!gameEventMethodList || Object.keys(gameEventMethodList).length === 0) {
+			return;
+		}
+
+		if (IsDuplicityVersion()) {
+			this.logger.warn(
+				`[game-events] ${provider.constructor.name} uses @GameEvent on the server, game events only fire on clients`
+			);
+			return;
+		}
+
+		for (const methodName of Object.keys(gameEventMethodList)) {
+			if (typeof provider[methodName] !== "function") {
+				this.logger.error(
+					`[game-events] Method ${methodName} not found or not a function in ${provider.constructor.name}`
+				);
+				continue;
+			}
+
+			const method = provider[methodName].bind(provider);
+
+			for (const metadata of gameEventMethodList[methodName]) {
+				// Game events run through the same chain as local events
+				const eventMetadata: EventMetadata = {
+					name: metadata.name,
+					networked: false,
+					context: metadata.context,
+					methodName,
+				};
+
+				const eventBindings = this.bindings.get(metadata.name) ?? [];
+				eventBindings.push({
+					handler: this.middlewareFactory.create(eventMetadata, method),
+					provider,
+					methodName,
+				});
+				this.bindings.set(metadata.name, eventBindings);
+			}
+		}
+
+		this.loadedProviders.add(provider);
+		this.listen();
+
+		this.logger.debug(
+			`[game-events] Loaded game event handlers from ${provider.constructor.name}`
+		);
+	}
+
+	private listen(): void {
+		if (this.listener) {
+			return;
+		}
+
+		this.listener = (name: string, args: any[]) => {
+			this.handleGameEvent(name, args);
+		};
+
+		addEventListener("gameEventTriggered", this.listener, false);
+	}
+
+	private handleGameEvent(name: string, args: any[]): void {
+		if (!this.bindings.has(name) && !this.needsDerivedEvents(name)) {
+			return;
+		}
+
+		const payload = decodeGameEvent(name, args);
+		this.dispatch(name, payload);
+
+		if (name === GameEvents.EntityDamage) {
+			const damage = payload as EntityDamageEvent;
+
+			if (
+				damage.isFatal &&
+				this.bindings.has(GameEvents.PlayerKilled) &&
+				getGameEventNatives().IsPedAPlayer(damage.victim)
+			) {
+				this.dispatch(GameEvents.PlayerKilled, decodePlayerKilled(damage));
+			}
+		}
+
+		if (
+			name === GameEvents.PlayerEnteredVehicle &&
+			this.bindings.has(GameEvents.PlayerLeftVehicle)
+		) {
+			this.watchVehicle(payload as VehicleEnteredEvent);
+		}
+	}
+
+	private needsDerivedEvents(name: string): boolean {
+		return (
+			(name === GameEvents.EntityDamage &&
+				this.bindings.has(GameEvents.PlayerKilled)) ||
+			(name === GameEvents.PlayerEnteredVehicle &&
+				this.bindings.has(GameEvents.PlayerLeftVehicle))
+		);
+	}
+
+	/**
+	 * The game has no event for leaving a vehicle, so the vehicle is polled
+	 * until the player is no longer in it
+	 */
+	private watchVehicle({ player, vehicle }: VehicleEnteredEvent): void {
+		const key = `${player}:${vehicle}`;
+
+		if (this.vehicleWatches.has(key)) {
+			return;
+		}
+
+		const interval = setInterval(() => {
+			const natives = getGameEventNatives();
+
+			if (
+				natives.IsPedInVehicle(natives.GetPlayerPed(player), vehicle, false)
+			) {
+				return;
+			}
+
+			clearInterval(interval);
+			this.vehicleWatches.delete(key);
+			this.dispatch(GameEvents.PlayerLeftVehicle, { player, vehicle });
+		}, VEHICLE_EXIT_INTERVAL);
+
+		this.vehicleWatches.set(key, interval);
+	}
+
+	private dispatch(name: string, payload: any): void {
+		for (const binding of this.bindings.get(name) ?? []) {
+			Promise.resolve(binding.handler(payload)).catch(() => {
+				// Already logged by the middleware
+			});
+		}
+	}
+
+	public unload(provider?: any): void {
+		if (!provider) {
+			this.unloadAll();
+			return;
+		}
+
+		if (!this.loadedProviders.has(provider)) {
+			return;
+		}
+
+		for (const [name, eventBindings] of Array.from(this.bindings.entries())) {
+			const remaining = eventBindings.filter((b) => b.provider !== provider);
+
+			if (remaining.length === 0) {
+				this.bindings.delete(name);
+			} else {
+				this.bindings.set(name, remaining);
+			}
+		}
+
+		this.loadedProviders.delete(provider);
+
+		if (this.bindings.size === 0) {
+			this.unloadAll();
+		}
+	}
+
+	private unloadAll(): void {
+		if (this.listener) {
+			removeEventListener("gameEventTriggered", this.listener);
+			this.listener = undefined;
+		}
+
+		for (const interval of this.vehicleWatches.values()) {
+			clearInterval(interval);
+		}
+
+		this.vehicleWatches.clear();
+		this.bindings.clear();
+		this.loadedProviders.clear();
+	}
+
+	public getRegisteredGameEvents(): string[] {
+		return Array.from(this.bindings.keys());
+	}
+}
@@ -0,0 +1,158 @@
+import { DecoratorMetadataKey } from "../../constants";
+import { EventMetadata } from "../../decorator/Events/OnEvent";
+import { NuiEventMetadata } from "../../decorator/Events/OnNuiEvent";
+import { Inject, Injectable } from "../../decorator/Injectable";
+import { Logger } from "../../logger/logger";
+import {
+	HandlerSkipped,
+	type MiddlewareFactory,
+} from "../../middleware/middleware";
+import { getMethodMetadata } from "../../reflect";
+
+/**
+ * Sent back to the web `fetch` when the handler throws or a middleware
+ * rejects the call
+ */
+export interface NuiErrorResponse {
+	ok: false;
+	error: string;
+}
+
+type NuiCallback = (response: any) => void;
+
+interface NuiBinding {
+	eventName: string;
+	listener: (data: any, callback: NuiCallback) => void;
+	provider: any;
+	methodName: string;
+}
+
+/**
+ * Registers the methods decorated with `@OnNuiEvent` as NUI callbacks. The
+ * handler result is the response of the web `fetch`.
+ */
+@Injectable()
+export class NuiEventLoader {
+	private readonly bindings = new Map<string, NuiBinding>();
+	private readonly registeredTypes = new Set<string>();
+
+	@Inject("MiddlewareFactory")
+	private readonly middlewareFactory: MiddlewareFactory;
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public load(provider: any): void {
+		const nuiMethodList = getMethodMetadata<Record<string, NuiEventMetadata[]>>(
+			DecoratorMetadataKey.nui,
+			provider
+		);
+
+		if (!nuiMethodList || Object.keys(nuiMethodList).length === 0) {
+			return;
+		}
+
+		if (IsDuplicityVersion()) {
+			this.logger.warn(
+				`[nui] ${provider.constructor.name} uses @OnNuiEvent on the server, NUI callbacks only exist on clients`
+			);
+			return;
+		}
+
+		for (const methodName of Object.keys(nuiMethodList)) {
+			if (typeof provider[methodName] !== "function") {
+				this.logger.error(
+					`[nui] Method ${methodName} not found or not a function in ${provider.constructor.name}`
+				);
+				continue;
+			}
+
+			for (const metadata of nuiMethodList[methodName]) {
+				this.register(provider, methodName, metadata);
+			}
+		}
+	}
+
+	private register(
+		provider: any,
+		methodName: string,
+		metadata: NuiEventMetadata
+	): void {
+		const name = metadata.name;
+		const existing = this.bindings.get(name);
+
+		// The web side gets exactly one response per callback
+		if (existing) {
+			this.logger.error(
+				`[nui] Callback ${name} is already handled by ${existing.provider.constructor.name}.${existing.methodName}`
+			);
+			return;
+		}
+
+		const eventMetadata: EventMetadata = {
+			name,
+			networked: false,
+			context: metadata.context,
+			methodName,
+		};
+
+		const handler = this.middlewareFactory.create(
+			eventMetadata,
+			provider[methodName].bind(provider)
+		);
+
+		const listener = async (data: any, callback: NuiCallback) => {
+			try {
+				const result = await handler(data);
+
+				if (result === HandlerSkipped) {
+					const response: NuiErrorResponse = {
+						ok: false,
+						error: `Callback ${name} was rejected`,
+					};
+					callback(response);
+					return;
+				}
+
+				callback(result === undefined ? {} : result);
+			} catch (error) {
+				const response: NuiErrorResponse = {
+					ok: false,
+					error: error instanceof Error ? error.message : String(error),
+				};
+				callback(response);
+			}
+		};
+
+		if (!this.registeredTypes.has(name)) {
+			// Client native, the server typings do not declare it
+			(globalThis as any).RegisterNuiCallbackType(name);
+			this.registeredTypes.add(name);
+		}
+
+		const eventName = `__cfx_nui:${name}`;
+		addEventListener(eventName, listener, false);
+
+		this.bindings.set(name, { eventName, listener, provider, methodName });
+
+		this.logger.debug(
+			`[nui] Registered callback ${name} for ${provider.constructor.name}.${methodName}`
+		);
+	}
+
+	public unload(provider?: any): void {
+		for (const [name, binding] of Array.from(this.bindings.entries())) {
+			if (provider && binding.provider !== provider) {
+				continue;
+			}
+
+			// The callback type stays registered, CFX cannot remove it
+			removeEventListener(binding.eventName, binding.listener);
+			this.bindings.delete(name);
+		}
+	}
+
+	public getRegisteredCallbacks(): string[] {
+		return Array.from(this.bindings.keys());
+	}
+}
@@ -156,7 +156,7 @@ export class OnceLoader {
 			return;
 		}
 
-		const eventMethodList = getMethodMetadata<OnceMetadata>(
+		const eventMethodList = getMethodMetadata<Record<string, OnceMetadata[]>>(
 			DecoratorMetadataKey.once,
 			provider
 		);
@@ -171,8 +171,6 @@ export class OnceLoader {
 		let loadedCount = 0;
 
 		for (const methodName of Object.keys(eventMethodList)) {
-			const onceMetadata = eventMethodList[methodName];
-
 			if (!provider[methodName] || typeof provider[methodName] !== "function") {
 				this.logger.error(
 					`[once] Method ${methodName} not found or not a function in ${provider.constructor.name}`
@@ -195,26 +193,29 @@ export class OnceLoader {
 				}
 			};
 
-			const methodTrigger: MethodTrigger = {
-				method: decoratedMethod,
-				reload: onceMetadata.reload,
-				priority: onceMetadata.priority || 0,
-				timeout: onceMetadata.timeout,
-				provider,
-				methodName,
-				metadata: onceMetadata,
-			};
-
-			if (!this.methods[onceMetadata.step]) {
-				this.methods[onceMetadata.step] = [];
-			}
+			// A method can be decorated for several steps
+			for (const onceMetadata of eventMethodList[methodName]) {
+				const methodTrigger: MethodTrigger = {
+					method: decoratedMethod,
+					reload: onceMetadata.reload,
+					priority: onceMetadata.priority || 0,
+					timeout: onceMetadata.timeout,
+					provider,
+					methodName,
+					metadata: onceMetadata,
+				};
+
+				if (!this.methods[onceMetadata.step]) {
+					this.methods[onceMetadata.step] = [];
+				}
 
-			this.methods[onceMetadata.step].push(methodTrigger);
-			loadedCount++;
+				this.methods[onceMetadata.step].push(methodTrigger);
+				loadedCount++;
 
-			this.logger.debug(
-				`[once] Registered ${provider.constructor.name}.${methodName} for step ${onceMetadata.step}`
-			);
+				this.logger.debug(
+					`[once] Registered ${provider.constructor.name}.${methodName} for step ${onceMetadata.step}`
+				);
+			}
 		}
 
 		this.loadedProviders.add(provider);
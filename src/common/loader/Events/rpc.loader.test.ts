@@ -0,0 +1,179 @@
+import "reflect-metadata";
+import { afterAll, afterEach, expect, test } from "bun:test";
+import { CfxEmulator } from "../../testing/emulator/emulator";
+import { Test, TestingModule } from "../../testing/test";
+
+// The framework reads the side from the natives while it is imported
+const emulator = new CfxEmulator({ fakeTimers: true }).install("server");
+
+const { Rpc } = await import("../../decorator/Events/Rpc");
+const { Provider } = await import("../../decorator/Provider");
+const { RpcServer } = await import("../../events/ServerRpc");
+const { RpcLoader } = await import("./rpc.loader");
+const { defineRpcContract } = await import("../../rpc/rpc.contract");
+
+interface RewardRpc {
+	claim(rewardId: number): number;
+	preview(rewardId: number): number;
+}
+
+const RewardContract = defineRpcContract<RewardRpc>("rewards");
+
+interface CameraRpc {
+	raycast(distance: number): number;
+}
+
+const CameraContract = defineRpcContract<CameraRpc, "client">(
+	"camera",
+	"client"
+);
+
+const calls: any[] = [];
+
+@Provider()
+class ExampleRpcProvider {
+	@Rpc(RpcServer.GetUnrelatedData)
+	getData(source: number, key: string) {
+		calls.push([source, key]);
+		return `${key}:${source}`;
+	}
+
+	@Rpc(RewardContract.method("claim"), { idempotencyTtl: 1000 })
+	claim(source: number, rewardId: number) {
+		calls.push([source, "claim", rewardId]);
+		return calls.length;
+	}
+
+	@Rpc(RewardContract.method("preview"), { idempotencyTtl: 100 })
+	preview(source: number, rewardId: number) {
+		calls.push([source, "preview", rewardId]);
+		return calls.length;
+	}
+}
+
+let testingModule: TestingModule;
+
+afterEach(async () => {
+	calls.length = 0;
+	await testingModule?.close();
+});
+
+afterAll(() => {
+	emulator.uninstall();
+});
+
+// Clients send only the serialized call, CFX passes the sender as the source
+// global. Reading the source from the arguments handed the call data to the
+// handler as source.
+test("server RPC handlers receive the calling player as source", async () => {
+	testingModule = await Test.createTestingModule({
+		providers: [ExampleRpcProvider],
+		emulator,
+	}).compile();
+	const player = await testingModule.getPlayer();
+	const other = await testingModule.emulator.connectPlayer();
+	const responses: any[] = [];
+
+	other.onNet(`${RpcServer.GetUnrelatedData}_response`, (response: any) =>
+		responses.push(response)
+	);
+	other.emitNet(
+		RpcServer.GetUnrelatedData,
+		JSON.stringify({
+			id: "other_1",
+			method: RpcServer.GetUnrelatedData,
+			params: ["money"],
+			timestamp: 0,
+		})
+	);
+
+	expect(await testingModule.call(RpcServer.GetUnrelatedData, "level")).toBe(
+		`level:${player.id}`
+	);
+	expect(calls).toContainEqual([player.id, "level"]);
+	expect(calls).toContainEqual([other.id, "money"]);
+	expect(responses.map((response) => response.result)).toEqual([
+		`money:${other.id}`,
+	]);
+});
+
+test("calls without retries carry no idempotency key", async () => {
+	testingModule = await Test.createTestingModule({ emulator }).compile();
+	const player = await testingModule.getPlayer();
+	const keys: (string | undefined)[] = [];
+
+	player.onNet("camera:raycast", (callData: string) =>
+		keys.push(JSON.parse(callData).idempotencyKey)
+	);
+
+	const rpcLoader =
+		testingModule.get<InstanceType<typeof RpcLoader>>(RpcLoader);
+	const calls = [
+		rpcLoader.callClient(
+			player.id,
+			CameraContract.method("raycast").event,
+			[1],
+			{ timeout: 20 }
+		),
+		rpcLoader.callClient(
+			player.id,
+			CameraContract.method("raycast").event,
+			[2],
+			{ timeout: 20, retries: 1, retryDelay: 0 }
+		),
+	].map((call) => call.catch(() => undefined));
+
+	await emulator.advance(20);
+	await emulator.advance(20);
+	await Promise.all(calls);
+
+	expect(keys).toHaveLength(3);
+	expect(keys[0]).toBeUndefined();
+	expect(keys[1]).toBeString();
+	expect(keys[2]).toBe(keys[1]);
+});
+
+test("responses expire by the TTL of their method", async () => {
+	testingModule = await Test.createTestingModule({
+		providers: [ExampleRpcProvider],
+		emulator,
+	}).compile();
+	const player = await testingModule.getPlayer();
+	const results: Record<string, number[]> = { claim: [], preview: [] };
+
+	for (const method of ["claim", "preview"] as const) {
+		player.onNet(`rewards:${method}_response`, (response: any) =>
+			results[method].push(response.result)
+		);
+	}
+
+	const send = (method: "claim" | "preview", key: string, rewardId: number) =>
+		player.emitNet(
+			`rewards:${method}`,
+			JSON.stringify({
+				id: `${method}_${key}`,
+				method: `rewards:${method}`,
+				params: [rewardId],
+				timestamp: 0,
+				idempotencyKey: key,
+			})
+		);
+
+	send("claim", "a", 7);
+	send("preview", "b", 8);
+	await emulator.advance(10);
+
+	// The retry of preview comes after its TTL, the older claim is still kept
+	await emulator.advance(200);
+	send("claim", "a", 7);
+	send("preview", "b", 8);
+	await emulator.advance(10);
+
+	expect(results.claim).toEqual([1, 1]);
+	expect(results.preview).toEqual([2, 3]);
+	expect(calls).toEqual([
+		[player.id, "claim", 7],
+		[player.id, "preview", 8],
+		[player.id, "preview", 8],
+	]);
+});
@@ -1,4 +1,4 @@
-import { isServer } from "../../app";
+import { isServer } from "../../side";
 import { DecoratorMetadataKey } from "../../constants";
 import {
 	RpcCall,
@@ -11,20 +11,56 @@ import {
 } from "../../decorator/Events/Rpc";
 import { Inject, Injectable } from "../../decorator/Injectable";
 import { Logger } from "../../logger/logger";
-import { MiddlewareFactory } from "../../middleware/middleware";
+import type {
+	Middleware,
+	MiddlewareFactory,
+} from "../../middleware/middleware";
+import { EventRecorder } from "../../recording/event.recorder";
 import { getMethodMetadata } from "../../reflect";
+import { RpcMiddlewareRegistry } from "../../rpc/rpc.middleware.registry";
+import { RateLimiter } from "../../security/rate.limiter";
+import { ChunkedTransfer } from "../../transfer/chunked.transfer";
+import { exponentialBackoff } from "../../utils";
+
+interface RegisteredRpcMethod extends RpcMethod {
+	// The named RPC middlewares followed by the event middleware and the handler
+	pipeline: (call: RpcCall) => Promise<any>;
+}
 
 @Injectable()
 export class RpcLoader {
-	private rpcMethods = new Map<string, RpcMethod>();
+	private rpcMethods = new Map<string, RegisteredRpcMethod>();
+	private rpcHandlers = new Map<
+		string,
+		{
+			provider: any;
+			eventHandler: (...args: any[]) => Promise<void>;
+			stopReceiving: () => void;
+		}
+	>();
 	private pendingCalls = new Map<
 		string,
 		{
 			resolve: (value: any) => void;
 			reject: (error: any) => void;
 			timeout: NodeJS.Timeout;
+			onProgress?: RpcOptions["onProgress"];
+			// Set for calls of the server to a client
+			method?: string;
+			target?: number;
 		}
 	>();
+	// Server side listeners for the responses of clients, one per method
+	private clientResponseListeners = new Map<
+		string,
+		{ listener: (response: RpcResponse) => void; stopReceiving: () => void }
+	>();
+	private dropListener: (() => void) | undefined;
+	// Handler responses by caller and idempotency key, oldest first
+	private responseCache = new Map<
+		string,
+		{ response: Promise<RpcResponse>; expiresAt: number }
+	>();
 
 	@Inject("MiddlewareFactory")
 	private middlewareFactory: MiddlewareFactory;
@@ -32,14 +68,33 @@ export class RpcLoader {
 	@Inject(Logger)
 	private logger: Logger;
 
+	@Inject(RateLimiter)
+	private rateLimiter: RateLimiter;
+
+	@Inject(EventRecorder)
+	private recorder: EventRecorder;
+
+	@Inject(RpcMiddlewareRegistry)
+	private middlewareRegistry: RpcMiddlewareRegistry;
+
+	@Inject(ChunkedTransfer)
+	private transfer: ChunkedTransfer;
+
 	public load(provider: any): void {
-		const rpcMethodList = getMethodMetadata<any>(
+		const rpcMethodList = getMethodMetadata<Record<string, any[]>>(
 			DecoratorMetadataKey.rpc,
 			provider
 		);
 
-		for (const [methodName, metadata] of Object.entries(rpcMethodList)) {
-			this.registerRpcMethod(provider, methodName, metadata);
+		if (!rpcMethodList) {
+			return;
+		}
+
+		// A method can be exposed under several RPC names
+		for (const [methodName, metadataList] of Object.entries(rpcMethodList)) {
+			for (const metadata of metadataList) {
+				this.registerRpcMethod(provider, methodName, metadata);
+			}
 		}
 	}
 
@@ -56,27 +111,54 @@ export class RpcLoader {
 		}
 
 		const boundMethod = provider[methodName].bind(provider);
-		const rpcMethod: RpcMethod = {
+		const options: RpcOptions = metadata.options;
+
+		// The call is rate limited before the cache in handleServerRpc
+		const handler = this.middlewareFactory.create(
+			{
+				name: rpcName,
+				networked: true,
+				methodName: rpcName,
+				context: false,
+				rateLimit: false,
+			},
+			boundMethod
+		);
+
+		const rpcMethod: RegisteredRpcMethod = {
 			name: rpcName,
 			handler: boundMethod,
-			options: metadata.options,
+			options,
 			metadata: {
 				paramTypes: metadata.paramTypes,
 				returnType: metadata.returnType,
 				isAsync: metadata.isAsync,
 			},
+			pipeline: this.middlewareRegistry.compose(
+				options.middleware ?? [],
+				(call) => this.invoke(handler, call)
+			),
 		};
 
 		// Event Handler registrieren
 		const eventHandler = this.createEventHandler(rpcMethod);
 		addEventListener(rpcName, eventHandler, true);
 
+		// Calls with large params arrive through the transfer
+		const stopReceiving = this.transfer.receive(rpcName, {
+			onPayload: (args, source) =>
+				this.withSource(source, () => eventHandler(...args)),
+		});
+
 		this.rpcMethods.set(rpcName, rpcMethod);
+		this.rpcHandlers.set(rpcName, { provider, eventHandler, stopReceiving });
 		this.logger.debug(`Registered RPC method: ${rpcName}`);
 	}
 
-	private createEventHandler(rpcMethod: RpcMethod) {
+	private createEventHandler(rpcMethod: RegisteredRpcMethod) {
 		return async (...args: any[]) => {
+			this.recorder.record("rpc", rpcMethod.name, args, true);
+
 			try {
 				if (isServer) {
 					await this.handleServerRpc(rpcMethod, args);
@@ -90,12 +172,103 @@ export class RpcLoader {
 	}
 
 	private async handleServerRpc(
-		rpcMethod: RpcMethod,
+		rpcMethod: RegisteredRpcMethod,
 		args: any[]
 	): Promise<void> {
-		const [source, callData] = args;
+		// Net events only carry the call, the sender is in the source global
+		const source = Number((globalThis as any).source);
+		const [callData] = args;
+		// The source is never taken from the client
+		const rpcCall: RpcCall = { ...this.deserializeCall(callData), source };
+
+		let response: RpcResponse;
+
+		// Retries count against the limit as well, so it is checked before the cache
+		if (
+			this.rateLimiter.consume(
+				source,
+				"rpc",
+				rpcMethod.name,
+				rpcMethod.options.rateLimit
+			)
+		) {
+			response = await this.executeOnce(rpcMethod, rpcCall, `${source}`);
+		} else {
+			response = this.createErrorResponse(
+				rpcCall,
+				new RpcError(
+					"RATE_LIMITED",
+					`Too many calls of RPC '${rpcMethod.name}'`
+				)
+			);
+		}
+
+		this.send(`${rpcMethod.name}_response`, source, response, {
+			...rpcMethod.options,
+			tag: rpcCall.id,
+		});
+	}
+
+	private async handleClientRpc(
+		rpcMethod: RegisteredRpcMethod,
+		args: any[]
+	): Promise<void> {
+		const [callData] = args;
 		const rpcCall: RpcCall = this.deserializeCall(callData);
 
+		const response = await this.executeOnce(rpcMethod, rpcCall, "server");
+
+		this.send(`${rpcMethod.name}_response`, undefined, response, {
+			...rpcMethod.options,
+			tag: rpcCall.id,
+		});
+	}
+
+	/**
+	 * Runs the handler once per idempotency key of the caller. A retry of the
+	 * call gets the response of the first attempt, even while that one is
+	 * still running. Only calls which may be retried carry a key.
+	 */
+	private executeOnce(
+		rpcMethod: RegisteredRpcMethod,
+		rpcCall: RpcCall,
+		caller: string
+	): Promise<RpcResponse> {
+		const ttl = rpcMethod.options.idempotencyTtl ?? 60000;
+
+		if (!rpcCall.idempotencyKey || ttl <= 0) {
+			return this.execute(rpcMethod, rpcCall);
+		}
+
+		this.pruneResponseCache();
+
+		const cacheKey = `${caller}:${rpcMethod.name}:${rpcCall.idempotencyKey}`;
+		const cached = this.responseCache.get(cacheKey);
+
+		if (cached) {
+			this.logger.debug(
+				`RPC '${rpcMethod.name}' answered from cache for ${rpcCall.idempotencyKey}`
+			);
+			// The response carries the id of the attempt it answers
+			return cached.response.then((response) => ({
+				...response,
+				id: rpcCall.id,
+			}));
+		}
+
+		const response = this.execute(rpcMethod, rpcCall);
+		this.responseCache.set(cacheKey, {
+			response,
+			expiresAt: GetGameTimer() + ttl,
+		});
+
+		return response;
+	}
+
+	private async execute(
+		rpcMethod: RegisteredRpcMethod,
+		rpcCall: RpcCall
+	): Promise<RpcResponse> {
 		try {
 			// Validierung
 			if (
@@ -105,132 +278,176 @@ export class RpcLoader {
 				throw new RpcValidationError(rpcMethod.name, rpcCall.params);
 			}
 
-			// Middleware anwenden
-			const middlewareHandler = this.middlewareFactory.create(
-				{
-					name: rpcMethod.name,
-					networked: true,
-					methodName: rpcMethod.name,
-					context: false,
-				},
-				///@ts-expect-error TODO: Fix
-				rpcMethod.handler
-			);
-
 			// RPC ausführen
-			const result = await middlewareHandler(source, ...rpcCall.params);
+			const result = await rpcMethod.pipeline(rpcCall);
 
-			// Erfolgreiche Antwort senden
-			const response: RpcResponse = {
+			return {
 				id: rpcCall.id,
 				success: true,
 				result: this.serializeData(result, rpcMethod.options),
 				timestamp: Date.now(),
 			};
-
-			TriggerClientEvent(`${rpcMethod.name}_response`, source, response);
 		} catch (error) {
-			// Fehlerantwort senden
-			const response: RpcResponse = {
-				id: rpcCall.id,
-				success: false,
-				error: {
-					code: error instanceof RpcError ? error.code : "INTERNAL_ERROR",
-					message: error.message,
-					details: error instanceof RpcError ? error.details : undefined,
-				},
-				timestamp: Date.now(),
-			};
+			return this.createErrorResponse(rpcCall, error);
+		}
+	}
 
-			TriggerClientEvent(`${rpcMethod.name}_response`, source, response);
+	/**
+	 * Calls the handler through the event middleware. Its source middleware
+	 * reads the source global synchronously, which the awaits of the RPC
+	 * middlewares may have changed.
+	 */
+	private invoke(handler: Middleware, call: RpcCall): Promise<any> {
+		if (!isServer) {
+			return handler(...call.params);
 		}
+
+		return this.withSource(call.source, () => handler(...call.params));
 	}
 
-	private async handleClientRpc(
-		rpcMethod: RpcMethod,
-		args: any[]
-	): Promise<void> {
-		const [callData] = args;
-		const rpcCall: RpcCall = this.deserializeCall(callData);
+	private withSource<T>(source: any, fn: () => T): T {
+		const globals = globalThis as any;
+		const previousSource = globals.source;
+		globals.source = source;
 
 		try {
-			// Validierung
-			if (
-				rpcMethod.options.validator &&
-				!rpcMethod.options.validator(rpcCall.params)
-			) {
-				throw new RpcValidationError(rpcMethod.name, rpcCall.params);
-			}
+			return fn();
+		} finally {
+			globals.source = previousSource;
+		}
+	}
 
-			// Middleware anwenden
-			const middlewareHandler = this.middlewareFactory.create(
-				{
-					name: rpcMethod.name,
-					networked: true,
-					methodName: rpcMethod.name,
-					context: false,
-				},
-				///@ts-expect-error TODO: Fix
-				rpcMethod.handler
-			);
+	/**
+	 * Sends the call or response as a net event, in chunks if it is large
+	 */
+	private send(
+		name: string,
+		target: number | undefined,
+		data: any,
+		options: RpcOptions & { tag: string }
+	): void {
+		this.transfer
+			.send(name, target, [data], {
+				chunkSize: options.chunkSize,
+				bandwidth: options.bandwidth,
+				onProgress: options.onProgress,
+				tag: options.tag,
+			})
+			.catch((error) => {
+				this.logger.error(`Failed to send RPC event ${name}:`, error);
+			});
+	}
 
-			// RPC ausführen
-			const result = await middlewareHandler(...rpcCall.params);
+	private createErrorResponse(rpcCall: RpcCall, error: any): RpcResponse {
+		return {
+			id: rpcCall.id,
+			success: false,
+			error: {
+				code: error instanceof RpcError ? error.code : "INTERNAL_ERROR",
+				message: error.message,
+				details: error instanceof RpcError ? error.details : undefined,
+			},
+			timestamp: Date.now(),
+		};
+	}
 
-			// Erfolgreiche Antwort senden
-			const response: RpcResponse = {
-				id: rpcCall.id,
-				success: true,
-				result: this.serializeData(result, rpcMethod.options),
-				timestamp: Date.now(),
-			};
+	/**
+	 * Drops the expired responses. Every method has its own TTL, so a newer
+	 * entry can expire before an older one.
+	 */
+	private pruneResponseCache(): void {
+		const now = GetGameTimer();
 
-			TriggerServerEvent(`${rpcMethod.name}_response`, response);
-		} catch (error) {
-			// Fehlerantwort senden
-			const response: RpcResponse = {
-				id: rpcCall.id,
-				success: false,
-				error: {
-					code: error instanceof RpcError ? error.code : "INTERNAL_ERROR",
-					message: error.message,
-					details: error instanceof RpcError ? error.details : undefined,
-				},
-				timestamp: Date.now(),
-			};
+		for (const [key, entry] of this.responseCache) {
+			if (entry.expiresAt <= now) {
+				this.responseCache.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Retries the call after a timeout, with exponential backoff between the
+	 * attempts. Every attempt carries the same idempotency key, so the handler
+	 * runs only once even if just the response got lost. Calls without
+	 * retries carry no key, the handler has nothing to keep for them.
+	 */
+	private async callWithRetries<TResponse>(
+		method: string,
+		options: RpcOptions,
+		send: (idempotencyKey: string | undefined) => Promise<TResponse>
+	): Promise<TResponse> {
+		const retries = options.retries ?? 0;
+		const idempotencyKey = retries > 0 ? this.generateCallId() : undefined;
 
-			TriggerServerEvent(`${rpcMethod.name}_response`, response);
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await send(idempotencyKey);
+			} catch (error) {
+				if (!(error instanceof RpcTimeoutError) || attempt >= retries) {
+					throw error;
+				}
+
+				this.logger.warn(
+					`RPC '${method}' timed out, retrying (${attempt + 1}/${retries})`
+				);
+				await exponentialBackoff(attempt, options.retryDelay ?? 1000);
+			}
 		}
 	}
 
-	// RPC Call ausführen (für Client-Code)
+	/**
+	 * Calls an RPC method registered on the server. Client only. The method
+	 * does not have to be registered on this side, see `defineRpcContract` for
+	 * typed calls.
+	 */
 	public async call<TResponse = any>(
 		method: string,
 		params: any[] = [],
-		options?: RpcOptions
+		options: RpcOptions = {}
 	): Promise<TResponse> {
-		const rpcMethod = this.rpcMethods.get(method);
-		if (!rpcMethod) {
+		if (isServer) {
 			throw new RpcError(
-				"METHOD_NOT_FOUND",
-				`RPC method '${method}' not found`
+				"WRONG_SIDE",
+				`RPC '${method}' has to be called on a client with callClient or callClients`
 			);
 		}
 
+		return this.callWithRetries(method, options, (idempotencyKey) =>
+			this.sendServerCall<TResponse>(method, params, options, idempotencyKey)
+		);
+	}
+
+	private sendServerCall<TResponse>(
+		method: string,
+		params: any[],
+		options: RpcOptions,
+		idempotencyKey: string | undefined
+	): Promise<TResponse> {
 		const callId = this.generateCallId();
-		const timeout = options?.timeout || rpcMethod.options.timeout || 30000;
+		const timeout = options.timeout || 30000;
 
 		const rpcCall: RpcCall = {
 			id: callId,
 			method,
 			params,
 			timestamp: Date.now(),
+			idempotencyKey,
 		};
 
 		return new Promise<TResponse>((resolve, reject) => {
+			const responseEvent = `${method}_response`;
+			let stopReceiving: () => void = () => {};
+
+			// Event Listener entfernen
+			const cleanup = () => {
+				removeEventListener(responseEvent, responseHandler);
+				stopReceiving();
+			};
+
 			// Timeout einrichten
 			const timeoutHandle = setTimeout(() => {
 				this.pendingCalls.delete(callId);
+				cleanup();
 				reject(new RpcTimeoutError(method, timeout));
 			}, timeout);
 
@@ -239,6 +456,7 @@ export class RpcLoader {
 				resolve,
 				reject,
 				timeout: timeoutHandle,
+				onProgress: options.onProgress,
 			});
 
 			// Response Handler registrieren (einmalig)
@@ -250,7 +468,7 @@ export class RpcLoader {
 						this.pendingCalls.delete(callId);
 
 						if (response.success) {
-							resolve(this.deserializeData(response.result, rpcMethod.options));
+							resolve(this.deserializeData(response.result, options));
 						} else {
 							const error = new RpcError(
 								response.error?.code || "UNKNOWN_ERROR",
@@ -260,22 +478,260 @@ export class RpcLoader {
 							reject(error);
 						}
 					}
-					// Event Listener entfernen
-					removeEventListener(`${method}_response`, responseHandler);
+					cleanup();
 				}
 			};
 
-			addEventListener(`${method}_response`, responseHandler, true);
+			addEventListener(responseEvent, responseHandler, true);
+
+			// Large responses arrive in chunks tagged with the call id
+			stopReceiving = this.transfer.receive(responseEvent, {
+				onPayload: ([response]) => responseHandler(response),
+				onProgress: (progress) => {
+					if (progress.tag === callId) {
+						options.onProgress?.(progress);
+					}
+				},
+				onError: (error) => {
+					if (error.tag === callId && this.pendingCalls.has(callId)) {
+						clearTimeout(timeoutHandle);
+						this.pendingCalls.delete(callId);
+						cleanup();
+						reject(new RpcError("TRANSFER_FAILED", error.message));
+					}
+				},
+			});
+
+			// Client -> Server call
+			this.send(method, undefined, this.serializeCall(rpcCall), {
+				...options,
+				tag: callId,
+			});
+		});
+	}
+
+	/**
+	 * Calls an RPC method registered on the client of the target player.
+	 * Server only. Rejects with PLAYER_DROPPED if the player leaves before
+	 * answering.
+	 */
+	public callClient<TResponse = any>(
+		target: number,
+		method: string,
+		params: any[] = [],
+		options: RpcOptions = {}
+	): Promise<TResponse> {
+		if (!isServer) {
+			return Promise.reject(
+				new RpcError(
+					"WRONG_SIDE",
+					`RPC '${method}' can only be called on a client from the server`
+				)
+			);
+		}
+
+		return this.callWithRetries(method, options, (idempotencyKey) =>
+			this.sendClientCall<TResponse>(
+				target,
+				method,
+				params,
+				options,
+				idempotencyKey
+			)
+		);
+	}
+
+	private sendClientCall<TResponse>(
+		target: number,
+		method: string,
+		params: any[],
+		options: RpcOptions,
+		idempotencyKey: string | undefined
+	): Promise<TResponse> {
+		// Checked on every attempt, the player may have left in between
+		if (!DoesPlayerExist(String(target))) {
+			return Promise.reject(
+				new RpcError("PLAYER_NOT_FOUND", `Player ${target} is not connected`)
+			);
+		}
+
+		const callId = this.generateCallId();
+		const timeout = options.timeout || 30000;
+
+		const rpcCall: RpcCall = {
+			id: callId,
+			method,
+			params,
+			timestamp: Date.now(),
+			idempotencyKey,
+		};
+
+		return new Promise<TResponse>((resolve, reject) => {
+			const timeoutHandle = setTimeout(() => {
+				this.settleClientCall(callId, new RpcTimeoutError(method, timeout));
+			}, timeout);
+
+			this.pendingCalls.set(callId, {
+				resolve: (result) => resolve(this.deserializeData(result, options)),
+				reject,
+				timeout: timeoutHandle,
+				onProgress: options.onProgress,
+				method,
+				target,
+			});
+
+			this.listenForClientResponses(method);
+			this.listenForDroppedPlayers();
+
+			this.send(method, target, this.serializeCall(rpcCall), {
+				...options,
+				tag: callId,
+			});
+		});
+	}
+
+	/**
+	 * Calls an RPC method on several clients, or on every client with -1, and
+	 * resolves once every call settled. The map holds the result or the error
+	 * of every player.
+	 */
+	public async callClients<TResponse = any>(
+		targets: number[] | -1,
+		method: string,
+		params: any[] = [],
+		options: RpcOptions = {}
+	): Promise<Map<number, PromiseSettledResult<TResponse>>> {
+		const players =
+			targets === -1
+				? this.getConnectedPlayers()
+				: Array.from(new Set(targets));
+
+		const results = await Promise.allSettled(
+			players.map((player) =>
+				this.callClient<TResponse>(player, method, params, options)
+			)
+		);
+
+		return new Map(players.map((player, index) => [player, results[index]]));
+	}
+
+	private getConnectedPlayers(): number[] {
+		const players: number[] = [];
 
-			// RPC Call senden
-			if (isServer) {
-				// Server -> Client call würde hier implementiert werden
-				// TriggerClientEvent(method, targetPlayer, this.serializeCall(rpcCall));
+		for (let index = 0; index < GetNumPlayerIndices(); index++) {
+			players.push(Number(GetPlayerFromIndex(index)));
+		}
+
+		return players;
+	}
+
+	private listenForClientResponses(method: string): void {
+		if (this.clientResponseListeners.has(method)) {
+			return;
+		}
+
+		const listener = (response: RpcResponse) => {
+			const pendingCall = this.pendingCalls.get(response?.id);
+
+			// Only the called player can answer
+			if (
+				!pendingCall ||
+				pendingCall.target !== Number((globalThis as any).source)
+			) {
+				return;
+			}
+
+			if (response.success) {
+				this.settleClientCall(response.id, undefined, response.result);
 			} else {
-				// Client -> Server call
-				TriggerServerEvent(method, this.serializeCall(rpcCall));
+				this.settleClientCall(
+					response.id,
+					new RpcError(
+						response.error?.code || "UNKNOWN_ERROR",
+						response.error?.message || "Unknown error occurred",
+						response.error?.details
+					)
+				);
 			}
+		};
+
+		addEventListener(`${method}_response`, listener, true);
+
+		// Large responses arrive in chunks tagged with the call id
+		const stopReceiving = this.transfer.receive(`${method}_response`, {
+			onPayload: ([response], source) =>
+				this.withSource(source, () => listener(response)),
+			onProgress: (progress, source) => {
+				const pendingCall = this.pendingCalls.get(progress.tag!);
+				if (pendingCall?.target === source) {
+					pendingCall.onProgress?.(progress);
+				}
+			},
+			onError: (error, source) => {
+				if (this.pendingCalls.get(error.tag!)?.target === source) {
+					this.settleClientCall(
+						error.tag!,
+						new RpcError("TRANSFER_FAILED", error.message)
+					);
+				}
+			},
 		});
+
+		this.clientResponseListeners.set(method, { listener, stopReceiving });
+	}
+
+	private listenForDroppedPlayers(): void {
+		if (this.dropListener) {
+			return;
+		}
+
+		this.dropListener = () => {
+			const source = Number((globalThis as any).source);
+
+			for (const [callId, pendingCall] of this.pendingCalls) {
+				if (pendingCall.target === source) {
+					this.settleClientCall(
+						callId,
+						new RpcError(
+							"PLAYER_DROPPED",
+							`Player ${source} dropped during RPC '${pendingCall.method}'`
+						)
+					);
+				}
+			}
+		};
+
+		addEventListener("playerDropped", this.dropListener, false);
+	}
+
+	private settleClientCall(callId: string, error?: RpcError, result?: any) {
+		const pendingCall = this.pendingCalls.get(callId);
+		if (!pendingCall) {
+			return;
+		}
+
+		clearTimeout(pendingCall.timeout);
+		this.pendingCalls.delete(callId);
+
+		const method = pendingCall.method!;
+		const stillPending = Array.from(this.pendingCalls.values()).some(
+			(call) => call.method === method
+		);
+
+		if (!stillPending) {
+			const registration = this.clientResponseListeners.get(method);
+			if (registration) {
+				removeEventListener(`${method}_response`, registration.listener);
+				registration.stopReceiving();
+				this.clientResponseListeners.delete(method);
+			}
+		}
+
+		if (error) {
+			pendingCall.reject(error);
+		} else {
+			pendingCall.resolve(result);
+		}
 	}
 
 	private generateCallId(): string {
@@ -304,9 +760,37 @@ export class RpcLoader {
 		return data;
 	}
 
-	public unload(): void {
+	public unload(provider?: any): void {
+		if (provider) {
+			this.unloadProvider(provider);
+		} else {
+			this.unloadAll();
+		}
+	}
+
+	private unloadProvider(provider: any): void {
+		let unloadedCount = 0;
+
+		for (const [rpcName, registration] of this.rpcHandlers) {
+			if (registration.provider !== provider) {
+				continue;
+			}
+
+			removeEventListener(rpcName, registration.eventHandler);
+			registration.stopReceiving();
+			this.rpcHandlers.delete(rpcName);
+			this.rpcMethods.delete(rpcName);
+			unloadedCount++;
+		}
+
+		this.logger.debug(
+			`Unloaded ${unloadedCount} RPC methods from ${provider.constructor.name}`
+		);
+	}
+
+	private unloadAll(): void {
 		// Alle pending calls abbrechen
-		for (const [callId, pendingCall] of this.pendingCalls) {
+		for (const [, pendingCall] of this.pendingCalls) {
 			clearTimeout(pendingCall.timeout);
 			pendingCall.reject(
 				new RpcError("SYSTEM_SHUTDOWN", "RPC system is shutting down")
@@ -314,13 +798,26 @@ export class RpcLoader {
 		}
 		this.pendingCalls.clear();
 
+		for (const [method, registration] of this.clientResponseListeners) {
+			removeEventListener(`${method}_response`, registration.listener);
+			registration.stopReceiving();
+		}
+		this.clientResponseListeners.clear();
+
+		if (this.dropListener) {
+			removeEventListener("playerDropped", this.dropListener);
+			this.dropListener = undefined;
+		}
+
 		// Event Listener entfernen
-		for (const [rpcName] of this.rpcMethods) {
-			// Hier müssten wir die tatsächlichen Handler-Referenzen speichern
-			// um sie korrekt zu entfernen
+		for (const [rpcName, registration] of this.rpcHandlers) {
+			removeEventListener(rpcName, registration.eventHandler);
+			registration.stopReceiving();
 		}
 
+		this.rpcHandlers.clear();
 		this.rpcMethods.clear();
+		this.responseCache.clear();
 		this.logger.debug("RPC Loader unloaded");
 	}
 
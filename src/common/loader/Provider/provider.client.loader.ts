@@ -11,8 +11,8 @@ export class ClientProviderLoader extends ProviderLoader {
 		super.load(provider);
 	}
 
-	public unload() {
+	public async unload(provider?: any) {
 		console.log("[DEBUG] ClientProviderLoader.unload called");
-		super.unload();
+		await super.unload(provider);
 	}
 }
@@ -3,8 +3,15 @@ import { Injectable } from "../../decorator/Injectable";
 import { Inject } from "../../decorator/Injectable";
 import { ProviderMetadata } from "../../decorator/Provider";
 import { Logger } from "../../logger/logger";
+import { DomainEventLoader } from "../Events/domain.event.loader";
 import { EventLoader } from "../Events/event.loader";
+import { ExportLoader } from "../Events/export.loader";
+import { GameEventLoader } from "../Events/game.event.loader";
+import { NuiEventLoader } from "../Events/nui.event.loader";
+import { OnceLoader } from "../Events/once.loader";
 import { RpcLoader } from "../Events/rpc.loader";
+import { ConditionLoader } from "../condition.loader";
+import { RpcMiddlewareLoader } from "../rpc.middleware.loader";
 import { TickLoader } from "../tick.loader";
 
 @Injectable()
@@ -14,22 +21,38 @@ export abstract class ProviderLoader {
 		@Inject(EventLoader) private readonly eventLoader: EventLoader,
 		@Inject(TickLoader) private readonly tickLoader: TickLoader,
 		@Inject(Logger) private readonly logger: Logger,
-		@Inject(RpcLoader) private readonly rpcLoader: RpcLoader
+		@Inject(RpcLoader) private readonly rpcLoader: RpcLoader,
+		@Inject(OnceLoader) private readonly onceLoader: OnceLoader,
+		@Inject(ExportLoader) private readonly exportLoader: ExportLoader,
+		@Inject(ConditionLoader) private readonly conditionLoader: ConditionLoader,
+		@Inject(GameEventLoader) private readonly gameEventLoader: GameEventLoader,
+		@Inject(NuiEventLoader) private readonly nuiEventLoader: NuiEventLoader,
+		@Inject(DomainEventLoader)
+		private readonly domainEventLoader: DomainEventLoader,
+		@Inject(RpcMiddlewareLoader)
+		private readonly rpcMiddlewareLoader: RpcMiddlewareLoader
 	) {}
 
 	public load(instance: any) {
 		try {
 			const metadata = Reflect.getMetadata(
 				DecoratorMetadataKey.provider,
-				instance
+				instance.constructor
 			) as ProviderMetadata;
 
+			this.conditionLoader.load(instance);
+			this.rpcMiddlewareLoader.load(instance);
 			this.eventLoader.load(instance);
 			this.tickLoader.load(instance);
 			this.rpcLoader.load(instance);
+			this.onceLoader.load(instance);
+			this.exportLoader.load(instance);
+			this.gameEventLoader.load(instance);
+			this.nuiEventLoader.load(instance);
+			this.domainEventLoader.load(instance);
 
 			this.logger.info(
-				`[Provider] Successfully loaded the Provider - ${metadata.name}`
+				`[Provider] Successfully loaded the Provider - ${metadata?.name ?? instance.constructor?.name}`
 			);
 		} catch (error) {
 			this.logger.error(
@@ -39,13 +62,32 @@ export abstract class ProviderLoader {
 		}
 	}
 
-	public unload() {
+	/**
+	 * Removes the handlers of a single provider instance, or of every provider
+	 * when no instance is given
+	 */
+	public async unload(instance?: any) {
 		try {
-			this.eventLoader.unload();
-			this.tickLoader.unload();
-			this.rpcLoader.unload();
+			this.eventLoader.unload(instance);
+			await this.tickLoader.unload(instance);
+			this.rpcLoader.unload(instance);
+			this.onceLoader.unload(instance);
+			this.exportLoader.unload(instance);
+			this.conditionLoader.unload(instance);
+			this.rpcMiddlewareLoader.unload(instance);
+			this.gameEventLoader.unload(instance);
+			this.nuiEventLoader.unload(instance);
+			this.domainEventLoader.unload(instance);
 		} catch (error) {
 			this.logger.error(`[Provider] Failed to unload the Provider`, error);
 		}
 	}
+
+	/**
+	 * Removes every handler and brings the loaders back into their initial state
+	 */
+	public async reset() {
+		await this.unload();
+		this.tickLoader.reset();
+	}
 }
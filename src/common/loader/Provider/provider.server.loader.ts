@@ -11,8 +11,8 @@ export class ServerProviderLoader extends ProviderLoader {
 		super.load(provider);
 	}
 
-	public unload() {
+	public async unload(provider?: any) {
 		console.log("[DEBUG] ServerProviderLoader.unload called");
-		super.unload();
+		await super.unload(provider);
 	}
 }
@@ -0,0 +1,49 @@
+import { ConditionRegistry } from "../condition/condition.registry";
+import { DecoratorMetadataKey } from "../constants";
+import { ConditionGuard, ConditionMetadata } from "../decorator/Condition";
+import { Inject, Injectable } from "../decorator/Injectable";
+import { Logger } from "../logger/logger";
+
+@Injectable()
+export class ConditionLoader {
+	private readonly loaded = new Map<any, string>();
+
+	@Inject(ConditionRegistry)
+	private readonly registry: ConditionRegistry;
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public load(provider: any): void {
+		const metadata = Reflect.getMetadata(
+			DecoratorMetadataKey.condition,
+			provider.constructor
+		) as ConditionMetadata | undefined;
+
+		if (!metadata || this.loaded.has(provider)) {
+			return;
+		}
+
+		const guard = provider as ConditionGuard;
+
+		this.registry.register(metadata.name, (context) => guard.check(context));
+		this.loaded.set(provider, metadata.name);
+
+		this.logger.debug(
+			`[conditions] Registered condition ${metadata.name} from ${provider.constructor.name}`
+		);
+	}
+
+	public unload(provider?: any): void {
+		const providers = provider ? [provider] : Array.from(this.loaded.keys());
+
+		for (const entry of providers) {
+			const name = this.loaded.get(entry);
+
+			if (name !== undefined) {
+				this.registry.unregister(name);
+				this.loaded.delete(entry);
+			}
+		}
+	}
+}
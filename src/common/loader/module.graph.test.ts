@@ -0,0 +1,96 @@
+import "reflect-metadata";
+import { expect, test } from "bun:test";
+import { Injectable } from "../decorator/Injectable";
+import { Module } from "../decorator/Module";
+import { ModuleUtils } from "../utils/module.utils";
+import { ModuleCycleError, ModuleGraph } from "./module.graph";
+
+@Injectable()
+class DatabaseService {}
+
+@Injectable()
+class CacheService {}
+
+@Injectable()
+class BankService {}
+
+@Module({ services: [DatabaseService], exports: [DatabaseService] })
+class DatabaseModule {}
+
+@Module({
+	imports: [DatabaseModule],
+	services: [CacheService],
+	exports: [CacheService],
+})
+class CacheModule {}
+
+@Module({ imports: [DatabaseModule, CacheModule], services: [BankService] })
+class BankModule {}
+
+test("orders modules after everything they import", () => {
+	const graph = new ModuleGraph();
+	const bank = graph.add(BankModule);
+
+	expect(
+		graph.getLoadOrder([bank.moduleClass]).map((node) => node.name)
+	).toEqual(["DatabaseModule", "CacheModule", "BankModule"]);
+	expect(
+		graph
+			.getDependents(DatabaseModule)
+			.map((node) => node.name)
+			.sort()
+	).toEqual(["BankModule", "CacheModule"]);
+	expect(graph.getOwner(CacheService)?.name).toBe("CacheModule");
+});
+
+test("reports the full path of a cycle", () => {
+	@Module({ name: "Jobs" })
+	class JobsModule {}
+
+	@Module({ name: "Payments", imports: [JobsModule] })
+	class PaymentsModule {}
+
+	@Module({ name: "Garage", imports: [PaymentsModule] })
+	class GarageModule {}
+
+	// A class can not import one declared after it, the cycle is closed here
+	ModuleUtils.getModuleMetadata(JobsModule)!.imports!.push(PaymentsModule);
+
+	const graph = new ModuleGraph();
+	graph.add(GarageModule);
+
+	let error: unknown;
+	try {
+		graph.getLoadOrder();
+	} catch (caught) {
+		error = caught;
+	}
+
+	expect(error).toBeInstanceOf(ModuleCycleError);
+	expect((error as ModuleCycleError).path).toEqual([
+		"Payments",
+		"Jobs",
+		"Payments",
+	]);
+});
+
+test("rejects a token declared by two modules", () => {
+	@Module({ services: [DatabaseService] })
+	class OtherDatabaseModule {}
+
+	@Module({ imports: [DatabaseModule, OtherDatabaseModule] })
+	class RootModule {}
+
+	expect(() => new ModuleGraph().add(RootModule)).toThrow(
+		"DatabaseService is declared in both module 'DatabaseModule' and module 'OtherDatabaseModule'"
+	);
+});
+
+test("rejects exports the module does not own", () => {
+	@Module({ exports: [BankService] })
+	class BrokenModule {}
+
+	expect(() => new ModuleGraph().add(BrokenModule)).toThrow(
+		"Module 'BrokenModule' exports BankService, which is not one of its providers, services or values"
+	);
+});
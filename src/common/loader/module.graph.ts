@@ -0,0 +1,386 @@
+import {
+	DynamicModule,
+	ModuleImport,
+	ModuleMetadata,
+	ValueProvider,
+} from "../decorator/Module";
+import { ModuleUtils } from "../utils/module.utils";
+
+export class ModuleCycleError extends Error {
+	constructor(public readonly path: string[]) {
+		super(`Circular module dependency detected: ${path.join(" -> ")}`);
+		this.name = "ModuleCycleError";
+	}
+}
+
+export class ModuleEncapsulationError extends Error {
+	constructor(
+		public readonly token: any,
+		public readonly ownerModule: string,
+		public readonly consumerModule: string,
+		imported: boolean
+	) {
+		super(
+			imported
+				? `Module '${consumerModule}' cannot inject ${ModuleUtils.getTokenName(token)}: it is not exported by module '${ownerModule}'`
+				: `Module '${consumerModule}' cannot inject ${ModuleUtils.getTokenName(token)}: module '${ownerModule}' is not imported by '${consumerModule}'`
+		);
+		this.name = "ModuleEncapsulationError";
+	}
+}
+
+// Where inversify keeps the constructor and property injections of a class
+const classMetadataKey = "@inversifyjs/core/classMetadataReflectKey";
+
+/**
+ * Tokens a class requires to be constructed, optional injections left out
+ */
+const getInjectedTokens = (target: any): any[] => {
+	const metadata = Reflect.getOwnMetadata(classMetadataKey, target);
+
+	if (!metadata) {
+		return [];
+	}
+
+	return [...metadata.constructorArguments, ...metadata.properties.values()]
+		.filter((element) => element && "value" in element && !element.optional)
+		.map((element) =>
+			typeof element.value?.unwrap === "function"
+				? element.value.unwrap()
+				: element.value
+		);
+};
+
+export interface ModuleGraphNode {
+	name: string;
+	// The module class, or the dynamic module the instance was created from
+	key: ModuleImport;
+	moduleClass: any;
+	metadata: ModuleMetadata;
+	// Keys of the imported modules
+	imports: ModuleImport[];
+	providers: any[];
+	services: any[];
+	values: ValueProvider[];
+	// Every token owned by the module: providers, services and values
+	tokens: any[];
+	exports: any[];
+}
+
+export type ModuleGraphSnapshot = {
+	name: string;
+	imports: string[];
+	dependents: string[];
+	providers: string[];
+	services: string[];
+	values: string[];
+	exports: string[];
+};
+
+/**
+ * Holds every known module and the edges created by their `imports`.
+ * Modules are keyed by class, every dynamic module is an instance of its
+ * class with a node of its own. Names are only used for reporting, further
+ * instances of a class are numbered, e.g. `WebhookModule#2`.
+ */
+export class ModuleGraph {
+	private readonly nodes = new Map<ModuleImport, ModuleGraphNode>();
+
+	public add(moduleImport: ModuleImport): ModuleGraphNode {
+		const pending = [moduleImport];
+
+		while (pending.length > 0) {
+			const current = pending.shift()!;
+
+			if (this.nodes.has(current)) {
+				continue;
+			}
+
+			const node = this.createNode(current);
+			pending.push(...this.merge(node, node.metadata));
+
+			if (ModuleUtils.isDynamicModule(current)) {
+				pending.push(...this.merge(node, current));
+			}
+		}
+
+		return this.nodes.get(moduleImport)!;
+	}
+
+	private createNode(key: ModuleImport): ModuleGraphNode {
+		const moduleClass = ModuleUtils.getModuleClass(key);
+		ModuleUtils.validateModule(moduleClass);
+
+		const metadata = ModuleUtils.getModuleMetadata(moduleClass)!;
+		const baseName = metadata.name || moduleClass.name;
+		const named = this.getByName(baseName);
+
+		if (named && named.moduleClass !== moduleClass) {
+			throw new Error(
+				`Module name '${baseName}' is used by more than one module class`
+			);
+		}
+
+		const instances = this.getNodes().filter(
+			(node) => node.moduleClass === moduleClass
+		).length;
+
+		const node: ModuleGraphNode = {
+			name: instances === 0 ? baseName : `${baseName}#${instances + 1}`,
+			key,
+			moduleClass,
+			metadata,
+			imports: [],
+			providers: [],
+			services: [],
+			values: [],
+			tokens: [],
+			exports: [],
+		};
+
+		this.nodes.set(key, node);
+		return node;
+	}
+
+	/**
+	 * Adds the providers, services, imports and exports of a module definition
+	 * to the node and returns the imports which still have to be visited
+	 */
+	private merge(
+		node: ModuleGraphNode,
+		definition: ModuleMetadata | DynamicModule
+	): ModuleImport[] {
+		const claim = (token: any): boolean => {
+			if (node.tokens.includes(token)) {
+				return false;
+			}
+
+			// Instances of one module class declare the same tokens
+			const owner = this.getOwners(token).find(
+				(other) => other.moduleClass !== node.moduleClass
+			);
+			if (owner) {
+				throw new Error(
+					`${ModuleUtils.getTokenName(token)} is declared in both module '${owner.name}' and module '${node.name}'`
+				);
+			}
+
+			node.tokens.push(token);
+			return true;
+		};
+
+		for (const provider of definition.providers || []) {
+			if (ModuleUtils.isValueProvider(provider)) {
+				if (!claim(provider.provide)) {
+					throw new Error(
+						`${ModuleUtils.getTokenName(provider.provide)} is provided more than once in module '${node.name}'`
+					);
+				}
+				node.values.push(provider);
+			} else if (claim(provider)) {
+				node.providers.push(provider);
+			}
+		}
+
+		for (const service of definition.services || []) {
+			if (claim(service)) {
+				node.services.push(service);
+			}
+		}
+
+		for (const token of definition.exports || []) {
+			if (!node.tokens.includes(token)) {
+				throw new Error(
+					`Module '${node.name}' exports ${ModuleUtils.getTokenName(token)}, which is not one of its providers, services or values`
+				);
+			}
+
+			if (!node.exports.includes(token)) {
+				node.exports.push(token);
+			}
+		}
+
+		const imports = definition.imports || [];
+
+		for (const importModule of imports) {
+			if (!node.imports.includes(importModule)) {
+				node.imports.push(importModule);
+			}
+		}
+
+		return imports;
+	}
+
+	public has(key: ModuleImport): boolean {
+		return this.nodes.has(key);
+	}
+
+	public get(key: ModuleImport): ModuleGraphNode | undefined {
+		return this.nodes.get(key);
+	}
+
+	public getNodes(): ModuleGraphNode[] {
+		return Array.from(this.nodes.values());
+	}
+
+	/**
+	 * Returns the module declaring the given provider or service, the first
+	 * one if several instances of a module class do
+	 */
+	public getOwner(token: any): ModuleGraphNode | undefined {
+		return this.getOwners(token)[0];
+	}
+
+	public getOwners(token: any): ModuleGraphNode[] {
+		return this.getNodes().filter((node) => node.tokens.includes(token));
+	}
+
+	/**
+	 * Checks that the providers and services of the given modules only inject
+	 * their own tokens, the exports of their imports or tokens no module owns.
+	 * Catches what the lazy bindings of the module containers would only
+	 * report once a class is resolved.
+	 */
+	public validate(
+		nodes: ModuleGraphNode[] = this.getNodes(),
+		skip: (token: any) => boolean = () => false
+	): void {
+		for (const node of nodes) {
+			for (const target of [...node.providers, ...node.services]) {
+				if (skip(target)) {
+					continue;
+				}
+
+				for (const token of getInjectedTokens(target)) {
+					this.checkAccess(node, token);
+				}
+			}
+		}
+	}
+
+	private checkAccess(node: ModuleGraphNode, token: any): void {
+		if (node.tokens.includes(token)) {
+			return;
+		}
+
+		const owners = this.getOwners(token);
+		if (owners.length === 0) {
+			return;
+		}
+
+		const exporters = owners.filter(
+			(owner) =>
+				node.imports.includes(owner.key) && owner.exports.includes(token)
+		);
+
+		if (exporters.length > 1) {
+			throw new Error(
+				`Module '${node.name}' cannot inject ${ModuleUtils.getTokenName(token)}: it is exported by more than one of its imports (${exporters.map((owner) => owner.name).join(", ")})`
+			);
+		}
+
+		if (exporters.length === 0) {
+			const owner =
+				owners.find((other) => node.imports.includes(other.key)) || owners[0];
+
+			throw new ModuleEncapsulationError(
+				token,
+				owner.name,
+				node.name,
+				node.imports.includes(owner.key)
+			);
+		}
+	}
+
+	public getByName(name: string): ModuleGraphNode | undefined {
+		for (const node of this.nodes.values()) {
+			if (node.name === name) {
+				return node;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Returns the modules reachable from the given roots, dependencies first.
+	 * Throws a ModuleCycleError containing the full path if a cycle is found.
+	 */
+	public getLoadOrder(
+		roots: ModuleImport[] = Array.from(this.nodes.keys())
+	): ModuleGraphNode[] {
+		const order: ModuleGraphNode[] = [];
+		const visited = new Set<ModuleImport>();
+		const stack: ModuleImport[] = [];
+
+		const visit = (key: ModuleImport): void => {
+			if (visited.has(key)) {
+				return;
+			}
+
+			const node = this.nodes.get(key);
+			if (!node) {
+				throw new Error(
+					`Module ${ModuleUtils.getModuleClass(key)?.name} is not registered in the module graph`
+				);
+			}
+
+			const cycleStart = stack.indexOf(key);
+			if (cycleStart !== -1) {
+				const path = [...stack.slice(cycleStart), key].map(
+					(entry) => this.nodes.get(entry)!.name
+				);
+				throw new ModuleCycleError(path);
+			}
+
+			stack.push(key);
+			for (const importModule of node.imports) {
+				visit(importModule);
+			}
+			stack.pop();
+
+			visited.add(key);
+			order.push(node);
+		};
+
+		for (const root of roots) {
+			visit(root);
+		}
+
+		return order;
+	}
+
+	/**
+	 * Returns the modules importing the given module, directly or transitively.
+	 */
+	public getDependents(key: ModuleImport): ModuleGraphNode[] {
+		const dependents = new Set<ModuleGraphNode>();
+		const pending = [key];
+
+		while (pending.length > 0) {
+			const current = pending.shift();
+
+			for (const node of this.nodes.values()) {
+				if (node.imports.includes(current) && !dependents.has(node)) {
+					dependents.add(node);
+					pending.push(node.key);
+				}
+			}
+		}
+
+		return Array.from(dependents);
+	}
+
+	public snapshot(): ModuleGraphSnapshot[] {
+		return Array.from(this.nodes.values()).map((node) => ({
+			name: node.name,
+			imports: node.imports.map((entry) => this.nodes.get(entry)!.name),
+			dependents: Array.from(this.nodes.values())
+				.filter((other) => other.imports.includes(node.key))
+				.map((other) => other.name),
+			providers: node.providers.map((p) => p.name),
+			services: node.services.map((s) => s.name),
+			values: node.values.map((v) => ModuleUtils.getTokenName(v.provide)),
+			exports: node.exports.map((e) => ModuleUtils.getTokenName(e)),
+		}));
+	}
+}
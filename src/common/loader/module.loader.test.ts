@@ -0,0 +1,397 @@
+import "reflect-metadata";
+import { afterEach, expect, test } from "bun:test";
+import { OnEvent } from "../decorator/Events/OnEvent";
+import { Inject, Injectable } from "../decorator/Injectable";
+import { DynamicModule, Module } from "../decorator/Module";
+import { Provider } from "../decorator/Provider";
+import { Test, TestingModule } from "../testing/test";
+import { ModuleUtils } from "../utils/module.utils";
+import { ModuleCycleError } from "./module.graph";
+
+const calls: string[] = [];
+
+let testingModule: TestingModule | undefined;
+
+afterEach(async () => {
+	calls.length = 0;
+	await testingModule?.close();
+	testingModule = undefined;
+});
+
+test("loads imported modules first", async () => {
+	@Provider()
+	class StorageProvider {
+		constructor() {
+			calls.push("storage");
+		}
+	}
+
+	@Provider()
+	class ShopProvider {
+		constructor() {
+			calls.push("shop");
+		}
+	}
+
+	@Module({ providers: [StorageProvider] })
+	class StorageModule {}
+
+	@Module({ imports: [StorageModule], providers: [ShopProvider] })
+	class ShopModule {}
+
+	testingModule = await Test.createTestingModule({
+		imports: [ShopModule],
+	}).compile();
+
+	expect(calls).toEqual(["storage", "shop"]);
+});
+
+test("rejects a cycle before loading any module", async () => {
+	@Provider()
+	class GarageProvider {
+		constructor() {
+			calls.push("garage");
+		}
+	}
+
+	@Module({ name: "Garage", providers: [GarageProvider] })
+	class GarageModule {}
+
+	@Module({ name: "Impound", imports: [GarageModule] })
+	class ImpoundModule {}
+
+	ModuleUtils.getModuleMetadata(GarageModule)!.imports!.push(ImpoundModule);
+
+	const compiled = Test.createTestingModule({
+		imports: [ImpoundModule],
+	}).compile();
+
+	await expect(compiled).rejects.toBeInstanceOf(ModuleCycleError);
+	expect(calls).toEqual([]);
+});
+
+@Injectable()
+class LedgerService {}
+
+@Injectable()
+class AuditService {}
+
+@Module({
+	name: "Ledger",
+	services: [LedgerService, AuditService],
+	exports: [LedgerService],
+})
+class LedgerModule {}
+
+test("modules inject the exports of their imports", async () => {
+	@Provider()
+	class PayrollProvider {
+		@Inject(LedgerService)
+		public readonly ledger: LedgerService;
+	}
+
+	@Module({ imports: [LedgerModule], providers: [PayrollProvider] })
+	class PayrollModule {}
+
+	testingModule = await Test.createTestingModule({
+		imports: [PayrollModule],
+	}).compile();
+
+	expect(testingModule.get<PayrollProvider>(PayrollProvider).ledger).toBe(
+		testingModule.get(LedgerService)
+	);
+});
+
+test("rejects injections of services the owner does not export", async () => {
+	// Never resolved while loading, only the graph can catch it
+	@Injectable()
+	class TaxService {
+		@Inject(AuditService)
+		public readonly audit: AuditService;
+	}
+
+	@Module({ name: "Tax", imports: [LedgerModule], services: [TaxService] })
+	class TaxModule {}
+
+	const compiled = Test.createTestingModule({ imports: [TaxModule] }).compile();
+
+	await expect(compiled).rejects.toThrow(
+		"Module 'Tax' cannot inject AuditService: it is not exported by module 'Ledger'"
+	);
+});
+
+test("rejects injections from modules which are not imported", async () => {
+	@Injectable()
+	class InvoiceService {
+		constructor(@Inject(LedgerService) public readonly ledger: LedgerService) {}
+	}
+
+	@Module({ name: "Invoice", services: [InvoiceService] })
+	class InvoiceModule {}
+
+	const compiled = Test.createTestingModule({
+		imports: [LedgerModule, InvoiceModule],
+	}).compile();
+
+	await expect(compiled).rejects.toThrow(
+		"Module 'Invoice' cannot inject LedgerService: module 'Ledger' is not imported by 'Invoice'"
+	);
+});
+
+declare module "../events/EventMap" {
+	interface ServerEventMap {
+		"garage:park": [];
+		"valet:park": [];
+	}
+}
+
+@Provider()
+class GarageProvider {
+	@OnEvent("garage:park")
+	park() {
+		calls.push("garage");
+	}
+}
+
+@Provider()
+class ValetProvider {
+	@OnEvent("valet:park")
+	park() {
+		calls.push("valet");
+	}
+}
+
+@Module({ name: "Garage", providers: [GarageProvider] })
+class GarageModule {}
+
+@Module({ name: "Valet", imports: [GarageModule], providers: [ValetProvider] })
+class ValetModule {}
+
+const getModuleLoader = async () => {
+	const { ModuleLoader } = await import("./module.loader");
+	return testingModule!.get<InstanceType<typeof ModuleLoader>>(ModuleLoader);
+};
+
+test("unloads a module together with its dependents", async () => {
+	testingModule = await Test.createTestingModule({
+		imports: [ValetModule],
+	}).compile();
+	const moduleLoader = await getModuleLoader();
+
+	await moduleLoader.unload("Valet");
+	await testingModule.emitNet("garage:park");
+	await testingModule.emitNet("valet:park");
+	expect(calls.splice(0)).toEqual(["garage"]);
+	expect(moduleLoader.getLoadedModules()).not.toContain("Valet");
+
+	await moduleLoader.unload("Garage");
+	await testingModule.emitNet("garage:park");
+	expect(calls).toEqual([]);
+	// The root module of the testing module depends on it too
+	expect(moduleLoader.getLoadedModules()).toEqual([]);
+});
+
+test("reloads a module with new provider instances", async () => {
+	testingModule = await Test.createTestingModule({
+		imports: [ValetModule],
+	}).compile();
+	const moduleLoader = await getModuleLoader();
+	const garage = testingModule.get(GarageProvider);
+	const valet = testingModule.get(ValetProvider);
+
+	await moduleLoader.reload("Garage");
+
+	expect(testingModule.get(GarageProvider)).not.toBe(garage);
+	expect(testingModule.get(ValetProvider)).not.toBe(valet);
+	expect(moduleLoader.isLoaded("Valet")).toBe(true);
+
+	// The handlers of the old instances are gone, each event runs once
+	await testingModule.emitNet("garage:park");
+	await testingModule.emitNet("valet:park");
+	expect(calls).toEqual(["garage", "valet"]);
+});
+
+test("calls the lifecycle hooks in dependency order", async () => {
+	const hooks = (name: string) =>
+		class {
+			onModuleInit() {
+				calls.push(`${name}.init`);
+			}
+			onApplicationBootstrap() {
+				calls.push(`${name}.bootstrap`);
+			}
+			beforeShutdown() {
+				calls.push(`${name}.beforeShutdown`);
+			}
+			async onModuleDestroy() {
+				await Promise.resolve();
+				calls.push(`${name}.destroy`);
+			}
+		};
+
+	@Provider()
+	class ConfigProvider extends hooks("config") {}
+
+	@Provider()
+	class ServerProvider extends hooks("server") {}
+
+	@Module({ providers: [ConfigProvider] })
+	class ConfigModule {}
+
+	@Module({ imports: [ConfigModule], providers: [ServerProvider] })
+	class ServerModule {}
+
+	testingModule = await Test.createTestingModule({
+		imports: [ServerModule],
+	}).compile();
+	expect(calls.splice(0)).toEqual([
+		"config.init",
+		"server.init",
+		"config.bootstrap",
+		"server.bootstrap",
+	]);
+
+	await testingModule.close();
+	expect(calls).toEqual([
+		"server.beforeShutdown",
+		"config.beforeShutdown",
+		"server.destroy",
+		"config.destroy",
+	]);
+});
+
+test("bounds the teardown hooks by the shutdown timeout", async () => {
+	@Provider()
+	class StuckProvider {
+		beforeShutdown() {
+			return new Promise<void>(() => undefined);
+		}
+		onModuleDestroy() {
+			calls.push("destroyed");
+		}
+	}
+
+	@Module({ providers: [StuckProvider] })
+	class StuckModule {}
+
+	testingModule = await Test.createTestingModule({
+		imports: [StuckModule],
+	}).compile();
+	(await getModuleLoader()).setShutdownTimeout(20);
+
+	await testingModule.close();
+	expect(calls).toEqual(["destroyed"]);
+	expect(
+		testingModule.logger.hasLog("StuckProvider.beforeShutdown timed out")
+	).toBe(true);
+});
+
+test("a module whose onModuleInit fails is not left loaded", async () => {
+	let failing = true;
+
+	@Provider()
+	class FlakyProvider {
+		@OnEvent("garage:park")
+		park() {
+			calls.push("flaky");
+		}
+
+		onModuleInit() {
+			if (failing) {
+				throw new Error("not ready");
+			}
+		}
+	}
+
+	@Module({ name: "Flaky", providers: [FlakyProvider] })
+	class FlakyModule {}
+
+	testingModule = await Test.createTestingModule({}).compile();
+	const moduleLoader = await getModuleLoader();
+
+	await expect(moduleLoader.load(FlakyModule)).rejects.toThrow("not ready");
+	expect(moduleLoader.isLoaded("Flaky")).toBe(false);
+	await testingModule.emitNet("garage:park");
+	expect(calls).toEqual([]);
+
+	failing = false;
+	await moduleLoader.load(FlakyModule);
+	expect(moduleLoader.isLoaded("Flaky")).toBe(true);
+	await testingModule.emitNet("garage:park");
+	expect(calls).toEqual(["flaky"]);
+});
+
+const WEBHOOK_CHANNEL = Symbol("WEBHOOK_CHANNEL");
+
+@Injectable()
+class WebhookService {
+	constructor(@Inject(WEBHOOK_CHANNEL) public readonly channel: string) {}
+}
+
+@Module({ services: [WebhookService], exports: [WebhookService] })
+class WebhookModule {
+	static forFeature(channel: string): DynamicModule {
+		return {
+			module: WebhookModule,
+			providers: [{ provide: WEBHOOK_CHANNEL, useValue: channel }],
+		};
+	}
+}
+
+test("every dynamic module instance gets its own providers", async () => {
+	@Provider()
+	class OrdersProvider {
+		@Inject(WebhookService)
+		public readonly webhook: WebhookService;
+	}
+
+	@Provider()
+	class PaymentsProvider {
+		@Inject(WebhookService)
+		public readonly webhook: WebhookService;
+	}
+
+	@Module({
+		imports: [WebhookModule.forFeature("orders")],
+		providers: [OrdersProvider],
+	})
+	class OrdersModule {}
+
+	@Module({
+		imports: [WebhookModule.forFeature("payments")],
+		providers: [PaymentsProvider],
+	})
+	class PaymentsModule {}
+
+	testingModule = await Test.createTestingModule({
+		imports: [OrdersModule, PaymentsModule],
+	}).compile();
+
+	expect(
+		testingModule.get<OrdersProvider>(OrdersProvider).webhook.channel
+	).toBe("orders");
+	expect(
+		testingModule.get<PaymentsProvider>(PaymentsProvider).webhook.channel
+	).toBe("payments");
+	expect((await getModuleLoader()).getLoadedModules()).toContain(
+		"WebhookModule#2"
+	);
+});
+
+test("a dynamic module imported twice is loaded once", async () => {
+	const webhooks = WebhookModule.forFeature("orders");
+
+	@Module({ name: "Shipping", imports: [webhooks] })
+	class ShippingModule {}
+
+	testingModule = await Test.createTestingModule({
+		imports: [webhooks, ShippingModule],
+	}).compile();
+
+	expect(testingModule.get<WebhookService>(WebhookService).channel).toBe(
+		"orders"
+	);
+	expect((await getModuleLoader()).getLoadedModules()).not.toContain(
+		"WebhookModule#2"
+	);
+});
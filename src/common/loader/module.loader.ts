@@ -1,9 +1,53 @@
+import { Container } from "inversify";
 import { Inject, Injectable } from "../decorator/Injectable";
 import { Logger } from "../logger/logger";
-import { ModuleMetadata } from "../decorator/Module";
-import { DecoratorMetadataKey } from "../constants";
+import { ModuleImport } from "../decorator/Module";
+import { ModuleUtils } from "../utils/module.utils";
 import { getGlobalContainer } from "../global";
+import { hasLifecycleHook, LifecycleHook } from "../lifecycle";
+import { withTimeout } from "../utils";
+import { PlayerScopeRegistry } from "../scope/player.scope.registry";
+import { bindRpcContract, getRpcContracts } from "../rpc/rpc.contract";
 import { ProviderLoader } from "./Provider/provider.loader";
+import {
+	ModuleEncapsulationError,
+	ModuleGraph,
+	ModuleGraphNode,
+	ModuleGraphSnapshot,
+} from "./module.graph";
+
+export type ModuleGraphEntry = ModuleGraphSnapshot & {
+	loaded: boolean;
+};
+
+export type ProviderOverride =
+	| { useValue: any }
+	| { useClass: new (...args: any[]) => any }
+	| { useFactory: () => any };
+
+/**
+ * Binds a token to the replacement described by the override
+ */
+export const bindProviderOverride = (
+	container: Container,
+	token: any,
+	override: ProviderOverride
+): void => {
+	if (container.isCurrentBound(token)) {
+		container.unbindSync(token);
+	}
+
+	if ("useValue" in override) {
+		container.bind(token).toConstantValue(override.useValue);
+	} else if ("useClass" in override) {
+		container.bind(token).to(override.useClass).inSingletonScope();
+	} else {
+		container
+			.bind(token)
+			.toDynamicValue(override.useFactory)
+			.inSingletonScope();
+	}
+};
 
 @Injectable()
 export class ModuleLoader {
@@ -14,78 +58,195 @@ export class ModuleLoader {
 	private readonly logger: Logger;
 
 	private container = getGlobalContainer();
+	private graph = new ModuleGraph();
 	private loadedModules = new Set<string>();
+	private moduleContainers = new Map<any, Container>();
+	private moduleProviders = new Map<any, any[]>();
+	private overrides = new Map<any, ProviderOverride>();
+	private shutdownTimeout?: number;
 
-	public load(moduleClass: any): void {
-		const moduleMetadata = this.getModuleMetadata(moduleClass);
-
+	/**
+	 * Registers the given modules and everything they import in the dependency
+	 * graph, checks what their providers inject, then loads all of them in
+	 * topological order (imports first).
+	 * Accepts module classes as well as dynamic modules. RPC contracts are
+	 * bound first, so the providers can inject them.
+	 */
+	public async load(...moduleImports: ModuleImport[]): Promise<void> {
 		if (!this.providerLoader) {
 			throw new Error("ProviderLoader is not initialized");
 		}
 
-		if (!moduleMetadata) {
-			throw new Error(
-				`Class ${moduleClass.name} is not decorated with @Module`
-			);
+		for (const contract of getRpcContracts()) {
+			bindRpcContract(this.container, contract);
+		}
+
+		const roots = moduleImports.map(
+			(moduleImport) => this.graph.add(moduleImport).key
+		);
+
+		const loadOrder = this.graph.getLoadOrder(roots);
+		// Overridden tokens do not construct the class declaring them
+		this.graph.validate(loadOrder, (token) => this.overrides.has(token));
+
+		this.logger.debug(
+			`[module] load order: ${loadOrder.map((node) => node.name).join(", ")}`
+		);
+
+		for (const node of loadOrder) {
+			await this.loadModule(node);
 		}
+	}
 
+	private async loadModule(node: ModuleGraphNode): Promise<void> {
 		// Prevent duplicate loading
-		if (this.loadedModules.has(moduleMetadata.name!)) {
-			this.logger.debug(
-				`[module] ${moduleMetadata.name} already loaded, skipping`
-			);
+		if (this.loadedModules.has(node.name)) {
+			this.logger.debug(`[module] ${node.name} already loaded, skipping`);
 			return;
 		}
 
-		this.logger.debug("[module] loading:", moduleMetadata.name);
+		this.logger.debug("[module] loading:", node.name);
+
+		const providerInstances: any[] = [];
 
 		try {
-			// Load imported modules first
-			this.loadImports(moduleMetadata.imports || []);
+			const moduleContainer = this.createModuleContainer(node);
+			this.moduleContainers.set(node.key, moduleContainer);
+			this.moduleProviders.set(node.key, providerInstances);
 
 			// Load providers
-			this.loadProviders(moduleMetadata.providers || []);
+			this.loadProviders(moduleContainer, node.providers, providerInstances);
 
 			// Load services
-			this.loadServices(moduleMetadata.services || []);
+			this.loadServices(node.services);
 
-			this.loadedModules.add(moduleMetadata.name!);
-			this.logger.info(`[module] ${moduleMetadata.name} loaded successfully`);
+			await this.runHook(providerInstances, "onModuleInit");
+			this.loadedModules.add(node.name);
+			this.logger.info(`[module] ${node.name} loaded successfully`);
 		} catch (error) {
-			this.logger.error(
-				`[module] Failed to load ${moduleMetadata.name}:`,
-				error
-			);
+			this.logger.error(`[module] Failed to load ${node.name}:`, error);
+			await this.discardModule(node, providerInstances);
 			throw error;
 		}
 	}
 
-	private getModuleMetadata(moduleClass: any): ModuleMetadata | null {
-		return (
-			(Reflect.getMetadata(
-				DecoratorMetadataKey.module,
-				moduleClass
-			) as ModuleMetadata) || null
-		);
+	/**
+	 * Removes the handlers of a module which failed to load, so loading it
+	 * again starts over. Its teardown hooks are not called.
+	 */
+	private async discardModule(
+		node: ModuleGraphNode,
+		providerInstances: any[]
+	): Promise<void> {
+		for (const providerInstance of providerInstances) {
+			await this.providerLoader.unload(providerInstance);
+		}
+
+		this.moduleProviders.delete(node.key);
+		this.moduleContainers.delete(node.key);
 	}
 
-	private loadImports(imports: any[]): void {
-		if (imports.length === 0) return;
-		for (const importModule of imports) {
-			this.load(importModule);
+	/**
+	 * Every module resolves from its own child container. Only its own tokens and
+	 * the exports of imported modules are bound there, every other module-owned
+	 * token is shadowed by a binding that fails with a ModuleEncapsulationError.
+	 */
+	private createModuleContainer(node: ModuleGraphNode): Container {
+		const moduleContainer = new Container({
+			parent: this.container,
+			defaultScope: "Singleton",
+		});
+
+		for (const token of [...node.providers, ...node.services]) {
+			const override = this.overrides.get(token);
+			if (override) {
+				bindProviderOverride(moduleContainer, token, override);
+				continue;
+			}
+
+			if (PlayerScopeRegistry.isPlayerScoped(token)) {
+				// Per player instances live in scope containers below the module container
+				moduleContainer
+					.bind(token)
+					.toDynamicValue(() =>
+						PlayerScopeRegistry.resolve(token, moduleContainer)
+					)
+					.inTransientScope();
+				continue;
+			}
+
+			moduleContainer.bind(token).toSelf().inSingletonScope();
 		}
+
+		for (const value of node.values) {
+			bindProviderOverride(
+				moduleContainer,
+				value.provide,
+				this.overrides.get(value.provide) || value
+			);
+		}
+
+		// Instances of a module class share their tokens, each is bound once
+		const bound = new Set<any>(node.tokens);
+		const others = this.graph.getNodes().filter((other) => other !== node);
+
+		for (const other of others) {
+			if (!node.imports.includes(other.key)) {
+				continue;
+			}
+
+			for (const token of other.exports) {
+				if (!bound.has(token)) {
+					bound.add(token);
+					moduleContainer
+						.bind(token)
+						.toDynamicValue(() =>
+							this.moduleContainers.get(other.key)!.get(token)
+						);
+				}
+			}
+		}
+
+		for (const other of others) {
+			const imported = node.imports.includes(other.key);
+
+			for (const token of other.tokens) {
+				if (!bound.has(token)) {
+					bound.add(token);
+					moduleContainer.bind(token).toDynamicValue(() => {
+						throw new ModuleEncapsulationError(
+							token,
+							other.name,
+							node.name,
+							imported
+						);
+					});
+				}
+			}
+		}
+
+		return moduleContainer;
 	}
 
-	private loadProviders(providers: any[]): void {
+	/**
+	 * Loads the providers into the given list, which holds the ones loaded so
+	 * far if one of them fails
+	 */
+	private loadProviders(
+		moduleContainer: Container,
+		providers: any[],
+		instances: any[]
+	): any[] {
 		for (const provider of providers) {
 			try {
-				const providerInstance = this.container.get(provider);
+				const providerInstance = moduleContainer.get(provider);
 
 				if (!providerInstance) {
 					this.logger.error(`[module] Provider ${provider.name} not found`);
-					return;
+					return instances;
 				}
 
+				instances.push(providerInstance);
 				this.providerLoader.load(providerInstance);
 			} catch (error) {
 				this.logger.error(
@@ -95,6 +256,8 @@ export class ModuleLoader {
 				throw error;
 			}
 		}
+
+		return instances;
 	}
 
 	private loadServices(services: any[]): void {
@@ -104,17 +267,211 @@ export class ModuleLoader {
 		}
 	}
 
-	public unload(moduleName?: string): void {
+	/**
+	 * Unloads a single module together with every loaded module depending on
+	 * it, or all modules when no name is given. Dependents always go first.
+	 */
+	public async unload(moduleName?: string): Promise<void> {
 		if (moduleName) {
-			this.loadedModules.delete(moduleName);
-			this.logger.debug(`[module] ${moduleName} unloaded`);
+			const affected = this.getAffectedModules(moduleName);
+
+			if (affected.length === 0) {
+				this.logger.debug(`[module] ${moduleName} not loaded, skipping unload`);
+				return;
+			}
+
+			for (const entry of affected.reverse()) {
+				await this.unloadModule(entry);
+			}
 		} else {
-			this.loadedModules.clear();
-			this.providerLoader.unload();
+			for (const entry of this.getUnloadOrder()) {
+				await this.unloadModule(entry);
+			}
+
+			await this.providerLoader.unload();
 			this.logger.debug("[module] All modules unloaded");
 		}
 	}
 
+	/**
+	 * Replaces a provider, service or value in the module declaring it. Only
+	 * affects modules loaded afterwards.
+	 */
+	public overrideProvider(token: any, override: ProviderOverride): void {
+		this.overrides.set(token, override);
+	}
+
+	/**
+	 * Resolves a token from the container of the loaded module declaring it,
+	 * the first loaded instance for dynamic modules, or from the global
+	 * container if no module declares it
+	 */
+	public get<T>(token: any): T {
+		const moduleContainer = this.graph
+			.getOwners(token)
+			.map((owner) => this.moduleContainers.get(owner.key))
+			.find(Boolean);
+
+		return (moduleContainer || this.container).get<T>(token);
+	}
+
+	/**
+	 * Unloads everything and forgets the dependency graph, so the next load
+	 * starts from a clean state
+	 */
+	public async reset(): Promise<void> {
+		await this.unload();
+		await this.providerLoader.reset();
+
+		this.graph = new ModuleGraph();
+		this.loadedModules.clear();
+		this.moduleContainers.clear();
+		this.moduleProviders.clear();
+		this.logger.debug("[module] Loader reset");
+	}
+
+	/**
+	 * Unloads a module and its dependents, then loads them again with freshly
+	 * instantiated providers
+	 */
+	public async reload(moduleName: string): Promise<void> {
+		const affected = this.getAffectedModules(moduleName);
+
+		if (affected.length === 0) {
+			throw new Error(`Module ${moduleName} is not loaded`);
+		}
+
+		this.logger.info(
+			`[module] reloading: ${affected.map((node) => node.name).join(", ")}`
+		);
+
+		await this.unload(moduleName);
+		await this.load(...affected.map((node) => node.key));
+	}
+
+	private async unloadModule(node: ModuleGraphNode): Promise<void> {
+		const providerInstances = this.moduleProviders.get(node.key) || [];
+
+		for (const providerInstance of providerInstances) {
+			await this.providerLoader.unload(providerInstance);
+		}
+
+		await this.runHook(providerInstances, "onModuleDestroy", true);
+
+		this.moduleProviders.delete(node.key);
+		this.moduleContainers.delete(node.key);
+		this.loadedModules.delete(node.name);
+		this.logger.debug(`[module] ${node.name} unloaded`);
+	}
+
+	/**
+	 * Calls onApplicationBootstrap on every loaded provider, imports first
+	 */
+	public async bootstrap(): Promise<void> {
+		for (const node of this.getLoadedOrder()) {
+			await this.runHook(
+				this.moduleProviders.get(node.key) || [],
+				"onApplicationBootstrap"
+			);
+		}
+	}
+
+	/**
+	 * Calls beforeShutdown on every loaded provider, dependents first
+	 */
+	public async beforeShutdown(): Promise<void> {
+		for (const node of this.getUnloadOrder()) {
+			await this.runHook(
+				this.moduleProviders.get(node.key) || [],
+				"beforeShutdown",
+				true
+			);
+		}
+	}
+
+	/**
+	 * Upper bound for every beforeShutdown / onModuleDestroy call
+	 */
+	public setShutdownTimeout(timeout: number): void {
+		this.shutdownTimeout = timeout;
+	}
+
+	/**
+	 * Awaits the given hook on each instance implementing it. Teardown hooks are
+	 * bounded by the shutdown timeout and only log their errors, so one provider
+	 * can not block the others from shutting down.
+	 */
+	private async runHook(
+		instances: any[],
+		hook: LifecycleHook,
+		teardown = false
+	): Promise<void> {
+		for (const instance of instances) {
+			// Player scoped instances only see onScopeDestroy
+			if (
+				PlayerScopeRegistry.isPlayerScoped(instance.constructor) ||
+				!hasLifecycleHook(instance, hook)
+			) {
+				continue;
+			}
+
+			const hookName = `${instance.constructor.name}.${hook}`;
+			this.logger.debug(`[module] calling ${hookName}`);
+
+			if (!teardown) {
+				await instance[hook]();
+				continue;
+			}
+
+			try {
+				await withTimeout(
+					Promise.resolve(instance[hook]()),
+					this.shutdownTimeout,
+					`${hookName} timed out after ${this.shutdownTimeout}ms`
+				);
+			} catch (error) {
+				this.logger.error(`[module] ${hookName} failed:`, error);
+			}
+		}
+	}
+
+	/**
+	 * The loaded module with the given name and its loaded dependents, in load order
+	 */
+	private getAffectedModules(moduleName: string): ModuleGraphNode[] {
+		const node = this.graph.getByName(moduleName);
+
+		if (!node || !this.loadedModules.has(moduleName)) {
+			return [];
+		}
+
+		const affected = new Set([node, ...this.graph.getDependents(node.key)]);
+
+		return this.graph
+			.getLoadOrder()
+			.filter(
+				(entry) => affected.has(entry) && this.loadedModules.has(entry.name)
+			);
+	}
+
+	private getLoadedOrder(): ModuleGraphNode[] {
+		return this.graph
+			.getLoadOrder()
+			.filter((node) => this.loadedModules.has(node.name));
+	}
+
+	private getUnloadOrder(): ModuleGraphNode[] {
+		return this.getLoadedOrder().reverse();
+	}
+
+	/**
+	 * Returns the child container of a loaded module
+	 */
+	public getModuleContainer(moduleName: string): Container | undefined {
+		const node = this.graph.getByName(moduleName);
+		return node ? this.moduleContainers.get(node.key) : undefined;
+	}
+
 	public isLoaded(moduleName: string): boolean {
 		return this.loadedModules.has(moduleName);
 	}
@@ -122,4 +479,21 @@ export class ModuleLoader {
 	public getLoadedModules(): string[] {
 		return Array.from(this.loadedModules);
 	}
+
+	/**
+	 * Topological load order of all known modules, by name
+	 */
+	public getLoadOrder(): string[] {
+		return this.graph.getLoadOrder().map((node) => node.name);
+	}
+
+	/**
+	 * Snapshot of the module dependency graph, e.g. for admin tooling
+	 */
+	public getDependencyGraph(): ModuleGraphEntry[] {
+		return this.graph.snapshot().map((entry) => ({
+			...entry,
+			loaded: this.loadedModules.has(entry.name),
+		}));
+	}
 }
@@ -0,0 +1,54 @@
+import { DecoratorMetadataKey } from "../constants";
+import { Inject, Injectable } from "../decorator/Injectable";
+import {
+	RpcMiddlewareHandler,
+	RpcMiddlewareMetadata,
+} from "../decorator/RpcMiddleware";
+import { Logger } from "../logger/logger";
+import { RpcMiddlewareRegistry } from "../rpc/rpc.middleware.registry";
+
+@Injectable()
+export class RpcMiddlewareLoader {
+	private readonly loaded = new Map<any, string>();
+
+	@Inject(RpcMiddlewareRegistry)
+	private readonly registry: RpcMiddlewareRegistry;
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public load(provider: any): void {
+		const metadata = Reflect.getMetadata(
+			DecoratorMetadataKey.rpcMiddleware,
+			provider.constructor
+		) as RpcMiddlewareMetadata | undefined;
+
+		if (!metadata || this.loaded.has(provider)) {
+			return;
+		}
+
+		const handler = provider as RpcMiddlewareHandler;
+
+		this.registry.register(metadata.name, (call, next) =>
+			handler.use(call, next)
+		);
+		this.loaded.set(provider, metadata.name);
+
+		this.logger.debug(
+			`[rpc] Registered middleware ${metadata.name} from ${provider.constructor.name}`
+		);
+	}
+
+	public unload(provider?: any): void {
+		const providers = provider ? [provider] : Array.from(this.loaded.keys());
+
+		for (const entry of providers) {
+			const name = this.loaded.get(entry);
+
+			if (name !== undefined) {
+				this.registry.unregister(name);
+				this.loaded.delete(entry);
+			}
+		}
+	}
+}
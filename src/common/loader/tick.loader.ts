@@ -2,7 +2,7 @@ import { DecoratorMetadataKey } from "../constants";
 import { Inject, Injectable } from "../decorator/Injectable";
 import { TickMetadata } from "../decorator/Tick";
 import { Logger } from "../logger/logger";
-import { MiddlewareTickFactory } from "../middleware/middleware";
+import type { MiddlewareTickFactory } from "../middleware/middleware";
 import { getMethodMetadata } from "../reflect";
 import { sleep } from "../utils";
 
@@ -323,4 +323,11 @@ export class TickLoader {
 	public async dispose(): Promise<void> {
 		await this.unloadAll();
 	}
+
+	/**
+	 * Accepts new ticks again after all ticks were unloaded
+	 */
+	public reset(): void {
+		this.isShuttingDown = false;
+	}
 }
@@ -1,5 +1,6 @@
 import { EventMetadata } from "../../decorator/Events/OnEvent";
 import { Inject, Injectable } from "../../decorator/Injectable";
+import { ConditionMiddlewareFactory } from "../condition.middleware";
 import { ContextEventMiddlewareFactory } from "../context.middleware";
 import { LogMiddlewareFactory } from "../log.middleware";
 import { Middleware, MiddlewareFactory } from "../middleware";
@@ -9,13 +10,19 @@ export class ChainMiddlewareEventClientFactory implements MiddlewareFactory {
 	@Inject(LogMiddlewareFactory)
 	private logMiddlewareFactory: LogMiddlewareFactory;
 
+	@Inject(ConditionMiddlewareFactory)
+	private conditionMiddlewareFactory: ConditionMiddlewareFactory;
+
 	@Inject(ContextEventMiddlewareFactory)
 	private contextEventMiddlewareFactory: ContextEventMiddlewareFactory;
 
 	create(event: EventMetadata, next: Middleware): Middleware {
 		return this.logMiddlewareFactory.create(
 			event,
-			this.contextEventMiddlewareFactory.create(event, next)
+			this.conditionMiddlewareFactory.create(
+				event,
+				this.contextEventMiddlewareFactory.create(event, next)
+			)
 		);
 	}
 }
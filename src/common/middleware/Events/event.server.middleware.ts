@@ -1,9 +1,13 @@
 import { EventMetadata } from "../../decorator/Events/OnEvent";
 import { Inject, Injectable } from "../../decorator/Injectable";
+import { ConditionMiddlewareFactory } from "../condition.middleware";
 import { ContextEventMiddlewareFactory } from "../context.middleware";
 import { LogMiddlewareFactory } from "../log.middleware";
 import { MetricMiddlewareFactory } from "../metric.middleware";
 import { Middleware, MiddlewareFactory } from "../middleware";
+import { PlayerScopeMiddlewareFactory } from "../player.scope.middleware";
+import { RateLimitMiddlewareFactory } from "../rate.limit.middleware";
+import { SchemaMiddlewareFactory } from "../schema.middleware";
 import { SourceMiddlewareFactory } from "../source.middleware";
 
 @Injectable()
@@ -14,9 +18,21 @@ export class ChainMiddlewareEventServerFactory implements MiddlewareFactory {
 	@Inject(MetricMiddlewareFactory)
 	private metricMiddlewareFactory: MetricMiddlewareFactory;
 
+	@Inject(RateLimitMiddlewareFactory)
+	private rateLimitMiddlewareFactory: RateLimitMiddlewareFactory;
+
+	@Inject(SchemaMiddlewareFactory)
+	private schemaMiddlewareFactory: SchemaMiddlewareFactory;
+
 	@Inject(SourceMiddlewareFactory)
 	private sourceMiddlewareFactory: SourceMiddlewareFactory;
 
+	@Inject(ConditionMiddlewareFactory)
+	private conditionMiddlewareFactory: ConditionMiddlewareFactory;
+
+	@Inject(PlayerScopeMiddlewareFactory)
+	private playerScopeMiddlewareFactory: PlayerScopeMiddlewareFactory;
+
 	@Inject(ContextEventMiddlewareFactory)
 	private contextEventMiddlewareFactory: ContextEventMiddlewareFactory;
 
@@ -25,9 +41,21 @@ export class ChainMiddlewareEventServerFactory implements MiddlewareFactory {
 			event,
 			this.metricMiddlewareFactory.create(
 				event,
-				this.sourceMiddlewareFactory.create(
+				this.rateLimitMiddlewareFactory.create(
 					event,
-					this.contextEventMiddlewareFactory.create(event, next)
+					this.schemaMiddlewareFactory.create(
+						event,
+						this.sourceMiddlewareFactory.create(
+							event,
+							this.conditionMiddlewareFactory.create(
+								event,
+								this.playerScopeMiddlewareFactory.create(
+									event,
+									this.contextEventMiddlewareFactory.create(event, next)
+								)
+							)
+						)
+					)
 				)
 			)
 		);
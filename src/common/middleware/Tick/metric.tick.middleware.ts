@@ -1,15 +1,17 @@
-import { Histogram } from "prom-client";
+import { Histogram, register } from "prom-client";
 import { Injectable } from "../../decorator/Injectable";
 import { Middleware, MiddlewareTickFactory } from "../middleware";
 import { TickMetadata } from "../../decorator/Tick";
 
 @Injectable()
 export class MetricTickMiddlewareFactory implements MiddlewareTickFactory {
-	private tickHistogram: Histogram<string> = new Histogram({
-		name: "Eterna_tick",
-		help: "Tick execution histogram",
-		labelNames: ["tick"],
-	});
+	private tickHistogram: Histogram<string> =
+		(register.getSingleMetric("Eterna_tick") as Histogram<string>) ??
+		new Histogram({
+			name: "Eterna_tick",
+			help: "Tick execution histogram",
+			labelNames: ["tick"],
+		});
 
 	public create(tick: TickMetadata, next: Middleware): Middleware {
 		return async (...args): Promise<void> => {
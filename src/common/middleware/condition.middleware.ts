@@ -0,0 +1,57 @@
+import { isServer } from "../side";
+import { ConditionRegistry } from "../condition/condition.registry";
+import { EventMetadata } from "../decorator/Events/OnEvent";
+import { Inject, Injectable } from "../decorator/Injectable";
+import { Logger } from "../logger/logger";
+import { HandlerSkipped, Middleware, MiddlewareFactory } from "./middleware";
+
+/**
+ * Skips the handler if the condition of the event is not met
+ */
+@Injectable()
+export class ConditionMiddlewareFactory implements MiddlewareFactory {
+	@Inject(ConditionRegistry)
+	private readonly registry: ConditionRegistry;
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public create(event: EventMetadata, next: Middleware): Middleware {
+		const condition = event.condition;
+
+		if (condition === undefined) {
+			return next;
+		}
+
+		return async (...args): Promise<any> => {
+			// Read before the first await, the global changes afterwards
+			const globals = globalThis as any;
+			const rawSource = globals.source;
+			const source =
+				isServer && event.networked ? Number(rawSource) : undefined;
+
+			const passed = await this.registry.evaluate(condition, {
+				event,
+				source,
+				args,
+			});
+
+			if (!passed) {
+				this.logger.debug(
+					`[events] Skipped ${event.methodName} for ${event.name}, condition ${JSON.stringify(condition)} not met`
+				);
+				return HandlerSkipped;
+			}
+
+			// The following middlewares read the source synchronously
+			const previousSource = globals.source;
+			globals.source = rawSource;
+
+			try {
+				return await next(...args);
+			} finally {
+				globals.source = previousSource;
+			}
+		};
+	}
+}
@@ -1,4 +1,4 @@
-import { Histogram } from "prom-client";
+import { Histogram, register } from "prom-client";
 import { Injectable } from "../decorator/Injectable";
 import { Middleware, MiddlewareFactory } from "./middleware";
 import { EventMetadata } from "../decorator/Events/OnEvent";
@@ -8,11 +8,14 @@ export class MetricMiddlewareFactory implements MiddlewareFactory {
 	private eventHistogram: Histogram<string>;
 
 	public constructor() {
-		this.eventHistogram = new Histogram({
-			name: "Eterna_event",
-			help: "Event execution histogram",
-			labelNames: ["event"],
-		});
+		// Metrics are registered globally, another container may have created it already
+		this.eventHistogram =
+			(register.getSingleMetric("Eterna_event") as Histogram<string>) ??
+			new Histogram({
+				name: "Eterna_event",
+				help: "Event execution histogram",
+				labelNames: ["event"],
+			});
 	}
 
 	public create(event: EventMetadata, next: Middleware): Middleware {
@@ -3,6 +3,12 @@ import { TickMetadata } from "../decorator/Tick";
 
 export type Middleware = (...args: any[]) => any | Promise<any>;
 
+/**
+ * Returned by a middleware which did not call the handler, e.g. for an
+ * invalid payload, so the caller does not mistake it for a handled event
+ */
+export const HandlerSkipped = Symbol("HandlerSkipped");
+
 export interface MiddlewareFactory {
 	create(event: EventMetadata, next: Middleware): Middleware;
 }
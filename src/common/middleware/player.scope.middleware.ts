@@ -0,0 +1,26 @@
+import { isServer } from "../side";
+import { EventMetadata } from "../decorator/Events/OnEvent";
+import { Inject, Injectable } from "../decorator/Injectable";
+import { PlayerScope } from "../scope/player.scope";
+import { Middleware, MiddlewareFactory } from "./middleware";
+
+/**
+ * Runs networked handlers inside the scope of the player who triggered them
+ */
+@Injectable()
+export class PlayerScopeMiddlewareFactory implements MiddlewareFactory {
+	@Inject(PlayerScope)
+	private readonly playerScope: PlayerScope;
+
+	public create(event: EventMetadata, next: Middleware): Middleware {
+		if (!isServer || !event.networked) {
+			return next;
+		}
+
+		return (...args): void | Promise<any> => {
+			const source = Number((globalThis as any).source);
+
+			return this.playerScope.run(source, () => next(...args));
+		};
+	}
+}
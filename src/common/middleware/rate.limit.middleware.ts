@@ -0,0 +1,33 @@
+import { isServer } from "../side";
+import { EventMetadata } from "../decorator/Events/OnEvent";
+import { Inject, Injectable } from "../decorator/Injectable";
+import { RateLimiter } from "../security/rate.limiter";
+import { HandlerSkipped, Middleware, MiddlewareFactory } from "./middleware";
+
+/**
+ * Drops networked events of players exceeding the rate limit of the handler
+ */
+@Injectable()
+export class RateLimitMiddlewareFactory implements MiddlewareFactory {
+	@Inject(RateLimiter)
+	private readonly rateLimiter: RateLimiter;
+
+	public create(event: EventMetadata, next: Middleware): Middleware {
+		if (!isServer || !event.networked || event.rateLimit === false) {
+			return next;
+		}
+
+		// Every handler has its own bucket
+		const name = `${event.name}:${event.methodName}`;
+
+		return (...args): typeof HandlerSkipped | Promise<any> => {
+			const source = Number((globalThis as any).source);
+
+			if (!this.rateLimiter.consume(source, "event", name, event.rateLimit)) {
+				return HandlerSkipped;
+			}
+
+			return next(...args);
+		};
+	}
+}
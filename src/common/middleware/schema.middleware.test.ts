@@ -0,0 +1,97 @@
+import "reflect-metadata";
+import { afterEach, expect, test } from "bun:test";
+import { register } from "prom-client";
+import { OnEvent } from "../decorator/Events/OnEvent";
+import { Provider } from "../decorator/Provider";
+import { schema } from "../schema/schema";
+import { Test, TestingModule } from "../testing/test";
+
+declare module "../events/EventMap" {
+	interface ServerEventMap {
+		"claim:reward": [rewardId: number];
+		"claim:bonus": [];
+	}
+}
+
+const calls: any[] = [];
+
+@Provider()
+class RewardProvider {
+	@OnEvent("claim:reward", {
+		once: true,
+		schema: [schema.integer({ min: 1 })],
+	})
+	claim(source: number, rewardId: number) {
+		calls.push([source, rewardId]);
+	}
+
+	@OnEvent("claim:bonus", { once: true, condition: "playerIsAdmin" })
+	bonus(source: number) {
+		calls.push([source, "bonus"]);
+	}
+}
+
+let testingModule: TestingModule;
+
+afterEach(async () => {
+	calls.length = 0;
+	await testingModule?.close();
+});
+
+test("an invalid payload does not consume a once handler", async () => {
+	testingModule = await Test.createTestingModule({
+		providers: [RewardProvider],
+	}).compile();
+	const player = await testingModule.getPlayer();
+
+	await testingModule.emitNet("claim:reward", "not a reward");
+	expect(calls).toEqual([]);
+	expect(testingModule.logger.hasLog("Rejected claim:reward")).toBe(true);
+
+	await testingModule.emitNet("claim:reward", 7);
+	await testingModule.emitNet("claim:reward", 8);
+	expect(calls).toEqual([[player.id, 7]]);
+});
+
+test("an unmet condition does not consume a once handler", async () => {
+	testingModule = await Test.createTestingModule({
+		providers: [RewardProvider],
+	}).compile();
+	const user = await testingModule.emulator.connectPlayer();
+	const admin = await testingModule.emulator.connectPlayer({
+		aces: ["command"],
+	});
+
+	user.emitNet("claim:bonus");
+	await testingModule.emulator.flush();
+	admin.emitNet("claim:bonus");
+	await testingModule.emulator.flush();
+	admin.emitNet("claim:bonus");
+	await testingModule.emulator.flush();
+
+	expect(calls).toEqual([[admin.id, "bonus"]]);
+});
+
+test("counts the rejected payloads per event", async () => {
+	testingModule = await Test.createTestingModule({
+		providers: [RewardProvider],
+	}).compile();
+
+	const rejected = async () => {
+		const metric = await register
+			.getSingleMetric("Eterna_event_rejected")!
+			.get();
+		return (
+			metric.values.find((entry) => entry.labels.event === "claim:reward")
+				?.value ?? 0
+		);
+	};
+	const before = await rejected();
+
+	await testingModule.emitNet("claim:reward", 0);
+	await testingModule.emitNet("claim:reward", 1, 2);
+	await testingModule.emitNet("claim:reward", 3);
+
+	expect(await rejected()).toBe(before + 2);
+	expect(calls).toHaveLength(1);
+});
@@ -0,0 +1,56 @@
+import { Counter, register } from "prom-client";
+import { isServer } from "../side";
+import { EventMetadata } from "../decorator/Events/OnEvent";
+import { Inject, Injectable } from "../decorator/Injectable";
+import { Logger } from "../logger/logger";
+import { HandlerSkipped, Middleware, MiddlewareFactory } from "./middleware";
+
+/**
+ * Rejects payloads of networked events not matching the schema of the
+ * handler. Runs before the source is prepended, so the schema only describes
+ * the arguments the client sent.
+ */
+@Injectable()
+export class SchemaMiddlewareFactory implements MiddlewareFactory {
+	private rejectedCounter: Counter<string>;
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public constructor() {
+		this.rejectedCounter =
+			(register.getSingleMetric("Eterna_event_rejected") as Counter<string>) ??
+			new Counter({
+				name: "Eterna_event_rejected",
+				help: "Networked events rejected because of an invalid payload",
+				labelNames: ["event"],
+			});
+	}
+
+	public create(event: EventMetadata, next: Middleware): Middleware {
+		const argsSchema = event.schema;
+
+		if (!isServer || !event.networked || !argsSchema) {
+			return next;
+		}
+
+		return (...args): typeof HandlerSkipped | Promise<any> => {
+			const issues = argsSchema.validate(args);
+
+			if (issues.length === 0) {
+				return next(...args);
+			}
+
+			const source = (globalThis as any).source;
+
+			this.rejectedCounter.inc({ event: event.name });
+			this.logger.warn(
+				`[events] Rejected ${event.name} from source ${source}: ${issues
+					.map((issue) => `${issue.path || "arguments"} ${issue.message}`)
+					.join(", ")}`
+			);
+
+			return HandlerSkipped;
+		};
+	}
+}
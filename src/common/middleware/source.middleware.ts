@@ -1,4 +1,4 @@
-import { isServer } from "../app";
+import { isServer } from "../side";
 import { EventMetadata } from "../decorator/Events/OnEvent";
 import { Injectable } from "../decorator/Injectable";
 import { Middleware, MiddlewareFactory } from "./middleware";
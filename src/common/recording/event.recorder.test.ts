@@ -0,0 +1,132 @@
+import "reflect-metadata";
+import { afterEach, expect, test } from "bun:test";
+import { OnEvent } from "../decorator/Events/OnEvent";
+import { Provider } from "../decorator/Provider";
+import { Test, TestingModule } from "../testing/test";
+import {
+	EventRecorder,
+	parseRecording,
+	serializeEntry,
+	type RecordedEntry,
+	type RecordingSink,
+} from "./event.recorder";
+
+declare module "../events/EventMap" {
+	interface ServerEventMap {
+		"garage:store": [plate: string];
+		"garage:ping": [];
+	}
+}
+
+@Provider()
+class GarageProvider {
+	@OnEvent("garage:store", { schema: [] })
+	store(source: number, plate: string) {}
+
+	@OnEvent("garage:ping")
+	ping(source: number) {}
+}
+
+class MemorySink implements RecordingSink {
+	public readonly lines: string[] = [];
+	public closed = false;
+
+	write(line: string): void {
+		this.lines.push(line);
+	}
+
+	close(): void {
+		this.closed = true;
+	}
+}
+
+let testingModule: TestingModule | undefined;
+
+afterEach(async () => {
+	await testingModule?.close();
+	testingModule = undefined;
+});
+
+const compile = async () => {
+	testingModule = await Test.createTestingModule({
+		providers: [GarageProvider],
+	}).compile();
+
+	return testingModule.get<EventRecorder>(EventRecorder);
+};
+
+test("records the incoming events while recording", async () => {
+	const recorder = await compile();
+	const player = await testingModule!.getPlayer();
+	const sink = new MemorySink();
+
+	await testingModule!.emitNet("garage:ping");
+	recorder.start(sink);
+
+	// Rejected by the schema, recorded anyway
+	await testingModule!.emitNet("garage:store", "LS 123");
+	await testingModule!.emit("garage:ping");
+
+	expect(await recorder.stop()).toBe(2);
+	expect(sink.closed).toBe(true);
+	expect(recorder.isRecording()).toBe(false);
+
+	expect(parseRecording(sink.lines.join("\n"))).toMatchObject([
+		{
+			kind: "event",
+			side: "server",
+			name: "garage:store",
+			source: player.id,
+			remote: true,
+			args: ["LS 123"],
+		},
+		{ kind: "event", name: "garage:ping", remote: false, args: [] },
+	]);
+	expect(JSON.parse(sink.lines[1]).source).toBeUndefined();
+});
+
+test("skips the entries the filter rejects", async () => {
+	const recorder = await compile();
+	const sink = new MemorySink();
+
+	recorder.start(sink, (entry) => entry.name !== "garage:ping");
+	await testingModule!.emitNet("garage:ping");
+	await testingModule!.emitNet("garage:store", "LS 123");
+
+	expect(await recorder.stop()).toBe(1);
+	expect(sink.lines).toHaveLength(1);
+});
+
+test("records one recording at a time", async () => {
+	const recorder = await compile();
+	recorder.start(new MemorySink());
+
+	expect(() => recorder.start(new MemorySink())).toThrow(
+		"The event recorder is already recording"
+	);
+
+	await recorder.stop();
+	expect(await recorder.stop()).toBe(0);
+});
+
+test("writes functions as null and reports the line of invalid entries", () => {
+	const entry: RecordedEntry = {
+		kind: "event",
+		side: "server",
+		name: "playerConnecting",
+		source: 1,
+		remote: false,
+		timestamp: 1,
+		gameTimer: 2,
+		args: ["Anna", () => undefined],
+	};
+
+	const line = serializeEntry(entry);
+	expect(parseRecording(`${line}\n\n${line}\r\n`)).toEqual([
+		{ ...entry, args: ["Anna", null] },
+		{ ...entry, args: ["Anna", null] },
+	]);
+	expect(() => parseRecording(`${line}\n{broken`)).toThrow(
+		"Invalid recording entry on line 2"
+	);
+});
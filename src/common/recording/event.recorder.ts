@@ -0,0 +1,153 @@
+import { Inject, Injectable } from "../decorator/Injectable";
+import { Logger } from "../logger/logger";
+
+export type RecordedEntryKind = "event" | "rpc";
+
+/**
+ * One incoming event or RPC call, written as a single JSON line
+ */
+export interface RecordedEntry {
+	kind: RecordedEntryKind;
+	side: "server" | "client";
+	name: string;
+	// Player source of net events on the server
+	source?: number;
+	// Received as a net event
+	remote: boolean;
+	timestamp: number;
+	// GetGameTimer at the time of the call, the replay keeps its gaps
+	gameTimer: number;
+	// The raw event arguments, for RPCs the serialized call
+	args: any[];
+}
+
+/**
+ * Receives the recorded lines, e.g. a FileRecordingSink on the server
+ */
+export interface RecordingSink {
+	write(line: string): void;
+	close?(): void | Promise<void>;
+}
+
+export type RecordingFilter = (entry: RecordedEntry) => boolean;
+
+/**
+ * Converts an entry into a JSON line. Functions, like the deferrals of
+ * `playerConnecting`, cannot be replayed and are written as null.
+ */
+export const serializeEntry = (entry: RecordedEntry): string =>
+	JSON.stringify(entry, (_key, value) =>
+		typeof value === "function" ? null : value
+	);
+
+/**
+ * Parses a JSON-lines recording, ignoring empty lines
+ */
+export const parseRecording = (content: string): RecordedEntry[] =>
+	content
+		.split(/\r?\n/)
+		.filter((line) => line.trim().length > 0)
+		.map((line, index) => {
+			try {
+				return JSON.parse(line) as RecordedEntry;
+			} catch (error) {
+				throw new Error(
+					`Invalid recording entry on line ${index + 1}: ${(error as Error).message}`
+				);
+			}
+		});
+
+/**
+ * Writes every incoming event and RPC call to a sink while recording is
+ * active. The EventLoader and RpcLoader report to it before any middleware
+ * runs, so rejected calls are recorded too.
+ */
+@Injectable()
+export class EventRecorder {
+	private sink: RecordingSink | undefined;
+	private filter: RecordingFilter | undefined;
+	private recorded = 0;
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public start(sink: RecordingSink, filter?: RecordingFilter): void {
+		if (this.sink) {
+			throw new Error("The event recorder is already recording");
+		}
+
+		this.sink = sink;
+		this.filter = filter;
+		this.recorded = 0;
+		this.logger.info("[recording] Started recording events");
+	}
+
+	/**
+	 * Stops recording and closes the sink. Returns the number of entries
+	 * written.
+	 */
+	public async stop(): Promise<number> {
+		const sink = this.sink;
+		if (!sink) {
+			return 0;
+		}
+
+		this.sink = undefined;
+		this.filter = undefined;
+
+		try {
+			await sink.close?.();
+		} catch (error) {
+			this.logger.error(
+				"[recording] Failed to close the recording sink",
+				error
+			);
+		}
+
+		this.logger.info(`[recording] Stopped recording, ${this.recorded} entries`);
+		return this.recorded;
+	}
+
+	public isRecording(): boolean {
+		return this.sink !== undefined;
+	}
+
+	public record(
+		kind: RecordedEntryKind,
+		name: string,
+		args: any[],
+		remote: boolean
+	): void {
+		if (!this.sink) {
+			return;
+		}
+
+		const side = IsDuplicityVersion() ? "server" : "client";
+		const source = Number((globalThis as any).source);
+		const entry: RecordedEntry = {
+			kind,
+			side,
+			name,
+			source:
+				side === "server" && Number.isFinite(source) && source > 0
+					? source
+					: undefined,
+			remote,
+			timestamp: Date.now(),
+			gameTimer: GetGameTimer(),
+			args,
+		};
+
+		if (this.filter && !this.filter(entry)) {
+			return;
+		}
+
+		try {
+			this.sink.write(serializeEntry(entry));
+			this.recorded++;
+		} catch (error) {
+			// E.g. circular arguments, the event itself is not affected
+			this.logger.warn(`[recording] Could not record ${kind} ${name}`, error);
+		}
+	}
+}
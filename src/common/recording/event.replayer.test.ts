@@ -0,0 +1,123 @@
+import "reflect-metadata";
+import { afterEach, expect, test } from "bun:test";
+import { OnEvent } from "../decorator/Events/OnEvent";
+import { Provider } from "../decorator/Provider";
+import { CfxEmulator } from "../testing/emulator/emulator";
+import { Test, TestingModule } from "../testing/test";
+import type { RecordedEntry } from "./event.recorder";
+import { EventReplayer } from "./event.replayer";
+
+declare module "../events/EventMap" {
+	interface ServerEventMap {
+		"race:lap": [lap: number];
+		"race:finish": [];
+	}
+}
+
+const calls: any[] = [];
+
+@Provider()
+class RaceProvider {
+	@OnEvent("race:lap")
+	lap(source: number, lap: number) {
+		calls.push([source, lap, GetGameTimer()]);
+	}
+
+	@OnEvent("race:finish", { networked: false })
+	finish() {
+		calls.push(["finish", GetGameTimer()]);
+	}
+}
+
+const entry = (
+	name: string,
+	gameTimer: number,
+	overrides: Partial<RecordedEntry> = {}
+): RecordedEntry => ({
+	kind: "event",
+	side: "server",
+	name,
+	remote: true,
+	timestamp: 0,
+	gameTimer,
+	args: [],
+	...overrides,
+});
+
+const recording = [
+	entry("playerConnecting", 1000, { source: 12, args: ["Anna", null] }),
+	entry("race:lap", 1000, { source: 12, args: [1] }),
+	entry("race:lap", 1500, { source: 40, args: [1] }),
+	entry("race:lap", 4000, { source: 12, args: [2] }),
+	entry("clientOnly", 4200, { side: "client" }),
+	entry("race:finish", 5000, { remote: false }),
+	entry("playerDropped", 5000, { source: 12, remote: false, args: ["Quit"] }),
+];
+
+let testingModule: TestingModule | undefined;
+let emulator: CfxEmulator | undefined;
+
+afterEach(async () => {
+	calls.length = 0;
+	await testingModule?.close();
+	emulator?.uninstall();
+	testingModule = undefined;
+	emulator = undefined;
+});
+
+const compile = async () => {
+	emulator = new CfxEmulator({ fakeTimers: true }).install("server");
+	testingModule = await Test.createTestingModule({
+		providers: [RaceProvider],
+		emulator,
+	}).compile();
+
+	return emulator;
+};
+
+test("replays the entries with emulated players and the recorded gaps", async () => {
+	const emulator = await compile();
+	const start = GetGameTimer();
+
+	const result = await new EventReplayer(emulator).replay(recording);
+
+	expect(result.replayed).toBe(5);
+	expect(result.skipped).toBe(2);
+	expect(Array.from(result.players.keys())).toEqual([12, 40]);
+
+	const anna = result.players.get(12)!;
+	const other = result.players.get(40)!;
+	expect(calls).toEqual([
+		[anna, 1, start],
+		[other, 1, start + 500],
+		[anna, 2, start + 3000],
+		["finish", start + 4000],
+	]);
+	expect(emulator.getPlayer(anna)).toBeUndefined();
+	expect(emulator.getPlayer(other)?.connected).toBe(true);
+});
+
+test("fast timing skips the gaps", async () => {
+	const emulator = await compile();
+	const start = GetGameTimer();
+	const replayed: string[] = [];
+
+	await new EventReplayer(emulator).replay(recording, {
+		timing: "fast",
+		onEntry: (entry) => replayed.push(entry.name),
+	});
+
+	expect(calls.map((call) => call[call.length - 1])).toEqual([
+		start,
+		start,
+		start,
+		start,
+	]);
+	expect(replayed).toEqual([
+		"race:lap",
+		"race:lap",
+		"race:lap",
+		"race:finish",
+		"playerDropped",
+	]);
+});
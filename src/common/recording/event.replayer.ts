@@ -0,0 +1,130 @@
+import { setTimeout as sleep } from "timers/promises";
+import { CfxEmulator, EmulatedPlayer } from "../testing/emulator/emulator";
+import type { RecordedEntry } from "./event.recorder";
+
+export type ReplayTiming = "original" | "fast";
+
+export interface ReplayOptions {
+	// "original" keeps the gaps between the entries, "fast" skips them
+	timing?: ReplayTiming;
+	// Additionally waits the gaps in real time, for code using real timers
+	realtime?: boolean;
+	// Called before every entry is replayed
+	onEntry?: (entry: RecordedEntry, index: number) => void;
+}
+
+export interface ReplayResult {
+	replayed: number;
+	skipped: number;
+	// Recorded sources mapped to the ids of the emulated players
+	players: Map<number, number>;
+}
+
+// Fired by the emulator itself when a player connects
+const connectionEvents = new Set(["playerConnecting", "playerJoining"]);
+
+/**
+ * Feeds a recording into an application booted on the given emulator. Every
+ * recorded player source is replaced by an emulated player, connected before
+ * its first entry. Only server recordings can be replayed.
+ *
+ * ```ts
+ * const emulator = new CfxEmulator({ fakeTimers: true }).install("server");
+ * // ...boot the Application
+ * await new EventReplayer(emulator).replay(parseRecording(content));
+ * ```
+ */
+export class EventReplayer {
+	private readonly players = new Map<number, EmulatedPlayer>();
+
+	constructor(private readonly emulator: CfxEmulator) {}
+
+	public async replay(
+		entries: RecordedEntry[],
+		options: ReplayOptions = {}
+	): Promise<ReplayResult> {
+		const timing = options.timing ?? "original";
+		let replayed = 0;
+		let skipped = 0;
+		let previousTime: number | undefined;
+
+		for (const [index, entry] of entries.entries()) {
+			if (entry.side !== "server" || connectionEvents.has(entry.name)) {
+				skipped++;
+				continue;
+			}
+
+			if (timing === "original" && previousTime !== undefined) {
+				await this.wait(entry.gameTimer - previousTime, options.realtime);
+			}
+			previousTime = entry.gameTimer;
+
+			options.onEntry?.(entry, index);
+			await this.replayEntry(entry);
+			replayed++;
+		}
+
+		await this.emulator.flush();
+
+		return {
+			replayed,
+			skipped,
+			players: new Map(
+				Array.from(this.players.entries()).map(([source, player]) => [
+					source,
+					player.id,
+				])
+			),
+		};
+	}
+
+	private async replayEntry(entry: RecordedEntry): Promise<void> {
+		const player =
+			entry.source !== undefined
+				? await this.getPlayer(entry.source)
+				: undefined;
+
+		if (entry.name === "playerDropped" && player) {
+			await this.emulator.dropPlayer(player.id, entry.args[0]);
+			return;
+		}
+
+		// RPC calls are net events carrying the serialized call
+		if (entry.remote && player) {
+			player.emitNet(entry.name, ...entry.args);
+			await this.emulator.flush();
+			return;
+		}
+
+		this.emulator.server.dispatch(entry.name, entry.args, {
+			source: player?.id,
+		});
+		await this.emulator.flush();
+	}
+
+	private async getPlayer(source: number): Promise<EmulatedPlayer> {
+		let player = this.players.get(source);
+
+		if (!player || !player.connected) {
+			player = await this.emulator.connectPlayer({
+				name: `Replay${source}`,
+			});
+			this.players.set(source, player);
+		}
+
+		return player;
+	}
+
+	private async wait(ms: number, realtime = false): Promise<void> {
+		if (ms <= 0) {
+			return;
+		}
+
+		if (realtime) {
+			// Not affected by the fake timers of the emulator
+			await sleep(ms);
+		}
+
+		await this.emulator.advance(ms);
+	}
+}
@@ -0,0 +1,28 @@
+import { afterAll, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileRecordingSink } from "./file.sink";
+
+const directory = mkdtempSync(join(tmpdir(), "eterna-recording-"));
+
+afterAll(() => {
+	rmSync(directory, { recursive: true, force: true });
+});
+
+test("appends one line per entry to the file", async () => {
+	const path = join(directory, "recording.jsonl");
+
+	const first = new FileRecordingSink(path);
+	first.write('{"name":"a"}');
+	first.write('{"name":"b"}');
+	await first.close();
+
+	const second = new FileRecordingSink(path);
+	second.write('{"name":"c"}');
+	await second.close();
+
+	expect(readFileSync(path, "utf8")).toBe(
+		'{"name":"a"}\n{"name":"b"}\n{"name":"c"}\n'
+	);
+});
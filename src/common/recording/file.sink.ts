@@ -0,0 +1,25 @@
+import { createWriteStream, type WriteStream } from "fs";
+import type { RecordingSink } from "./event.recorder";
+
+/**
+ * Appends the recorded lines to a file. Uses node's fs, so it is only
+ * available on the server.
+ */
+export class FileRecordingSink implements RecordingSink {
+	private readonly stream: WriteStream;
+
+	constructor(public readonly path: string) {
+		this.stream = createWriteStream(path, { flags: "a" });
+	}
+
+	public write(line: string): void {
+		this.stream.write(`${line}\n`);
+	}
+
+	public close(): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this.stream.once("error", reject);
+			this.stream.end(() => resolve());
+		});
+	}
+}
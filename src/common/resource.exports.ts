@@ -0,0 +1,94 @@
+import { Injectable } from "./decorator/Injectable";
+
+/**
+ * Describes the exports of another resource, e.g.
+ * `{ getBalance(identifier: string): number }`
+ */
+export type ExportSignatures = Record<string, (...args: any[]) => any>;
+
+export type ResourceExportsClient<T extends ExportSignatures> = {
+	[K in keyof T]: (
+		...args: Parameters<T[K]>
+	) => Promise<Awaited<ReturnType<T[K]>>>;
+};
+
+/**
+ * The CFX `exports` global. Read from globalThis, a bare `exports` makes the
+ * bundler treat the file as CommonJS.
+ */
+export const getCfxExports = (): CitizenExports => (globalThis as any).exports;
+
+export class ResourceExportError extends Error {
+	constructor(
+		public readonly resource: string,
+		public readonly exportName: string,
+		message: string
+	) {
+		super(message);
+		this.name = "ResourceExportError";
+	}
+}
+
+/**
+ * Calls the exports of other resources
+ */
+@Injectable()
+export class ResourceExports {
+	public isAvailable(resource: string): boolean {
+		return GetResourceState(resource) === "started";
+	}
+
+	public async call<
+		T extends ExportSignatures = ExportSignatures,
+		K extends keyof T & string = keyof T & string,
+	>(
+		resource: string,
+		exportName: K,
+		...args: Parameters<T[K]>
+	): Promise<Awaited<ReturnType<T[K]>>> {
+		if (!this.isAvailable(resource)) {
+			throw new ResourceExportError(
+				resource,
+				exportName,
+				`Resource '${resource}' is not started (${GetResourceState(resource)})`
+			);
+		}
+
+		let exportFunction: Function | undefined;
+
+		try {
+			exportFunction = getCfxExports()[resource][exportName];
+		} catch (error) {
+			exportFunction = undefined;
+		}
+
+		if (typeof exportFunction !== "function") {
+			throw new ResourceExportError(
+				resource,
+				exportName,
+				`Resource '${resource}' has no export '${exportName}'`
+			);
+		}
+
+		return await exportFunction(...args);
+	}
+
+	/**
+	 * Returns a typed client calling the exports of the given resource
+	 */
+	public of<T extends ExportSignatures>(
+		resource: string
+	): ResourceExportsClient<T> {
+		return new Proxy({} as ResourceExportsClient<T>, {
+			get: (_target, exportName) => {
+				// Keeps the client from being treated as a promise
+				if (typeof exportName !== "string" || exportName === "then") {
+					return undefined;
+				}
+
+				return (...args: any[]) =>
+					this.call<T>(resource, exportName, ...(args as any));
+			},
+		});
+	}
+}
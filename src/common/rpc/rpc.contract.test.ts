@@ -0,0 +1,76 @@
+import "reflect-metadata";
+import { afterAll, afterEach, expect, test } from "bun:test";
+import { CfxEmulator } from "../testing/emulator/emulator";
+import { Test, TestingModule } from "../testing/test";
+import type { RpcProxy } from "./rpc.contract";
+
+// The framework reads the side from the natives while it is imported
+const emulator = new CfxEmulator({ fakeTimers: true }).install("server");
+
+const { RpcTimeoutError } = await import("../decorator/Events/Rpc");
+const { getGlobalContainer } = await import("../global");
+const { RpcLoader } = await import("../loader/Events/rpc.loader");
+const { createRpcClient, defineRpcContract } = await import("./rpc.contract");
+
+interface CameraRpc {
+	raycast(distance: number): number;
+}
+
+const CameraContract = defineRpcContract<CameraRpc, "client">(
+	"camera",
+	"client"
+);
+
+let testingModule: TestingModule;
+
+afterEach(async () => {
+	await testingModule?.close();
+});
+
+afterAll(() => {
+	emulator.uninstall();
+});
+
+test("created clients pass their options to every call", async () => {
+	testingModule = await Test.createTestingModule({ emulator }).compile();
+	const player = await testingModule.getPlayer();
+	const received: string[] = [];
+
+	// The client never answers, so every attempt times out
+	player.onNet("camera:raycast", (callData: string) =>
+		received.push(JSON.parse(callData).idempotencyKey)
+	);
+
+	const camera = createRpcClient(CameraContract, testingModule.get(RpcLoader), {
+		timeout: 20,
+		retries: 1,
+		retryDelay: 0,
+	});
+
+	const error = camera.raycast(player.id, 10).catch((error) => error);
+	await emulator.advance(20);
+	await emulator.advance(20);
+
+	expect(await error).toBeInstanceOf(RpcTimeoutError);
+	expect(received).toHaveLength(2);
+	expect(received[0]).toBe(received[1]);
+});
+
+test("contracts are bound when the modules load", async () => {
+	expect(getGlobalContainer().isBound(CameraContract)).toBe(false);
+
+	testingModule = await Test.createTestingModule({ emulator }).compile();
+	const player = await testingModule.getPlayer();
+	const received: number[] = [];
+
+	player.onNet("camera:raycast", (callData: string) =>
+		received.push(...JSON.parse(callData).params)
+	);
+
+	const camera =
+		testingModule.get<RpcProxy<CameraRpc, "client">>(CameraContract);
+	camera.raycast(player.id, 10).catch(() => undefined);
+	await emulator.advance(30000);
+
+	expect(received).toEqual([10]);
+});
@@ -0,0 +1,169 @@
+import type { Container } from "inversify";
+import type { RpcOptions } from "../decorator/Events/Rpc";
+import { RpcLoader } from "../loader/Events/rpc.loader";
+
+/**
+ * The side implementing the methods of a contract
+ */
+export type RpcSide = "server" | "client";
+
+type RpcFunction = (...args: any[]) => any;
+
+export type RpcMethodName<C> = {
+	[K in keyof C]: C[K] extends RpcFunction ? K : never;
+}[keyof C] &
+	string;
+
+type RpcMethodOf<C, K extends keyof C> = C[K] extends RpcFunction
+	? C[K]
+	: never;
+
+type RpcResult<F extends RpcFunction> = Promise<Awaited<ReturnType<F>>>;
+
+/**
+ * Calls the methods of a contract implemented on the server
+ */
+export type RpcClient<C> = {
+	[K in RpcMethodName<C>]: (
+		...args: Parameters<RpcMethodOf<C, K>>
+	) => RpcResult<RpcMethodOf<C, K>>;
+};
+
+/**
+ * Calls the methods of a contract implemented on the clients, the target
+ * player comes first
+ */
+export type PlayerRpcClient<C> = {
+	[K in RpcMethodName<C>]: (
+		target: number,
+		...args: Parameters<RpcMethodOf<C, K>>
+	) => RpcResult<RpcMethodOf<C, K>>;
+};
+
+export type RpcProxy<C, S extends RpcSide> = S extends "client"
+	? PlayerRpcClient<C>
+	: RpcClient<C>;
+
+/**
+ * A single method of a contract, accepted by `@Rpc`
+ */
+export interface RpcMethodRef<
+	F extends RpcFunction = RpcFunction,
+	S extends RpcSide = RpcSide,
+> {
+	readonly event: string;
+	// The side handling the method, server handlers get the source in front
+	readonly side: S;
+	// Only carries the method signature for the handler type check
+	readonly signature?: F;
+}
+
+/**
+ * The token of a contract. Injecting it resolves to a typed proxy calling
+ * the other side, no handler has to be registered locally.
+ */
+export type RpcContract<C, S extends RpcSide = "server"> = (abstract new (
+	...args: never[]
+) => RpcProxy<C, S>) & {
+	readonly contractName: string;
+	readonly side: S;
+	method<K extends RpcMethodName<C>>(
+		name: K
+	): RpcMethodRef<RpcMethodOf<C, K>, S>;
+};
+
+const contracts = new Set<RpcContract<any, RpcSide>>();
+
+/**
+ * Every contract created by `defineRpcContract`. The ModuleLoader binds them
+ * before it loads any module.
+ */
+export const getRpcContracts = (): RpcContract<any, RpcSide>[] =>
+	Array.from(contracts);
+
+/**
+ * Declares the RPC methods of the interface `C`, implemented on the given
+ * side. The methods are sent as `<name>:<method>` events.
+ *
+ * ```ts
+ * interface InventoryRpc {
+ *   getItems(owner: number): Item[];
+ * }
+ * export const InventoryContract = defineRpcContract<InventoryRpc>("inventory");
+ *
+ * // Server
+ * @Rpc(InventoryContract.method("getItems"))
+ * getItems(source: number, owner: number): Item[] {}
+ *
+ * // Client
+ * @Inject(InventoryContract) inventory: RpcClient<InventoryRpc>;
+ * const items = await this.inventory.getItems(1);
+ * ```
+ */
+export const defineRpcContract = <C, S extends RpcSide = "server">(
+	name: string,
+	side: S = "server" as S
+): RpcContract<C, S> => {
+	abstract class Contract {}
+
+	const contract = Object.assign(Contract, {
+		contractName: name,
+		side,
+		method: (method: string): RpcMethodRef => ({
+			event: `${name}:${method}`,
+			side,
+		}),
+	}) as unknown as RpcContract<C, S>;
+
+	Object.defineProperty(contract, "name", { value: `${name}RpcContract` });
+
+	contracts.add(contract);
+
+	return contract;
+};
+
+/**
+ * Creates a proxy of the contract passing the options to every call, e.g. a
+ * longer timeout. Injected proxies use the defaults of the RpcLoader.
+ */
+export const createRpcClient = <C, S extends RpcSide>(
+	contract: RpcContract<C, S>,
+	rpcLoader: RpcLoader,
+	options: RpcOptions = {}
+): RpcProxy<C, S> =>
+	new Proxy(
+		{},
+		{
+			get: (_target, property) => {
+				// Not a thenable, so the proxy can be resolved from promises
+				if (typeof property !== "string" || property === "then") {
+					return undefined;
+				}
+
+				const { event } = contract.method(property as RpcMethodName<C>);
+
+				if (contract.side === "client") {
+					return (target: number, ...params: any[]) =>
+						rpcLoader.callClient(target, event, params, options);
+				}
+
+				return (...params: any[]) => rpcLoader.call(event, params, options);
+			},
+		}
+	) as RpcProxy<C, S>;
+
+export const bindRpcContract = (
+	container: Container,
+	contract: RpcContract<any, RpcSide>
+): void => {
+	if (container.isBound(contract)) {
+		return;
+	}
+
+	container
+		.bind(contract)
+		.toDynamicValue((context) =>
+			createRpcClient(contract, context.get(RpcLoader))
+		)
+		.inSingletonScope();
+};
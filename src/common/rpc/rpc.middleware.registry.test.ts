@@ -0,0 +1,107 @@
+import "reflect-metadata";
+import { afterEach, expect, test } from "bun:test";
+import { Rpc, RpcError, type RpcCall } from "../decorator/Events/Rpc";
+import { Provider } from "../decorator/Provider";
+import { RpcServer } from "../events/ServerRpc";
+import { Test, TestingModule } from "../testing/test";
+import { RpcMiddlewareRegistry } from "./rpc.middleware.registry";
+
+const call: RpcCall = {
+	id: "1",
+	method: "shop:buy",
+	params: [3],
+	timestamp: 0,
+};
+
+const rejection = async (promise: Promise<any>): Promise<RpcError> => {
+	try {
+		await promise;
+	} catch (error) {
+		return error as RpcError;
+	}
+	throw new Error("The call was not rejected");
+};
+
+test("runs the middlewares in the listed order around the handler", async () => {
+	const registry = new RpcMiddlewareRegistry();
+	const steps: string[] = [];
+
+	registry.register("auth", async (call, next) => {
+		steps.push("auth");
+		const result = await next();
+		steps.push("auth done");
+		return result;
+	});
+	registry.register("double", (call, next) => {
+		steps.push("double");
+		call.params = call.params.map((param: number) => param * 2);
+		return next();
+	});
+
+	const composed = registry.compose(["auth", "double"], async (call) => {
+		steps.push("handler");
+		return call.params[0];
+	});
+
+	expect(await composed({ ...call })).toBe(6);
+	expect(steps).toEqual(["auth", "double", "handler", "auth done"]);
+});
+
+test("rejects a middleware calling next twice", async () => {
+	const registry = new RpcMiddlewareRegistry();
+	let handled = 0;
+
+	registry.register("retry", async (call, next) => {
+		try {
+			return await next();
+		} catch {
+			return next();
+		}
+	});
+
+	const composed = registry.compose(["retry"], async () => {
+		handled++;
+		throw new Error("busy");
+	});
+
+	const error = await rejection(composed({ ...call }));
+	expect(error).toBeInstanceOf(RpcError);
+	expect(error.code).toBe("MIDDLEWARE_NEXT_CALLED_TWICE");
+	expect(error.message).toBe(
+		"RPC middleware 'retry' of 'shop:buy' called next more than once"
+	);
+	expect(handled).toBe(1);
+});
+
+let testingModule: TestingModule | undefined;
+
+afterEach(async () => {
+	await testingModule?.close();
+	testingModule = undefined;
+});
+
+test("rejects calls of methods with an unknown middleware", async () => {
+	let handled = false;
+
+	@Provider()
+	class ReportProvider {
+		@Rpc(RpcServer.GetUnrelatedData, { middleware: ["audit"] })
+		getData(source: number, key: string) {
+			handled = true;
+			return key;
+		}
+	}
+
+	testingModule = await Test.createTestingModule({
+		providers: [ReportProvider],
+	}).compile();
+
+	const error = await rejection(
+		testingModule.call(RpcServer.GetUnrelatedData, "x")
+	);
+	expect(error.code).toBe("MIDDLEWARE_NOT_FOUND");
+	expect(error.message).toBe(
+		`RPC middleware 'audit' of '${RpcServer.GetUnrelatedData}' is not registered`
+	);
+	expect(handled).toBe(false);
+});
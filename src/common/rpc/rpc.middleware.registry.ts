@@ -0,0 +1,83 @@
+import { RpcCall, RpcError } from "../decorator/Events/Rpc";
+import { Inject, Injectable } from "../decorator/Injectable";
+import { Logger } from "../logger/logger";
+
+export type RpcNext = () => Promise<any>;
+
+/**
+ * Runs around an RPC handler. Calls `next` to continue the pipeline, or
+ * returns or throws without it to answer the call itself. The params of the
+ * call can be replaced before `next` is called.
+ */
+export type RpcMiddlewareFunction = (call: RpcCall, next: RpcNext) => any;
+
+/**
+ * Named middlewares for the `middleware` option of `@Rpc`. Middlewares are
+ * registered here directly or as providers decorated with `@RpcMiddleware`.
+ */
+@Injectable()
+export class RpcMiddlewareRegistry {
+	private readonly middlewares = new Map<string, RpcMiddlewareFunction>();
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public register(name: string, middleware: RpcMiddlewareFunction): void {
+		if (this.middlewares.has(name)) {
+			this.logger.warn(`[rpc] Middleware ${name} is replaced`);
+		}
+
+		this.middlewares.set(name, middleware);
+	}
+
+	public unregister(name: string): void {
+		this.middlewares.delete(name);
+	}
+
+	public has(name: string): boolean {
+		return this.middlewares.has(name);
+	}
+
+	/**
+	 * Chains the middlewares in the listed order around the handler. The names
+	 * are resolved on every call, so middlewares of modules loaded after the
+	 * RPC method still apply. Unknown names and a second call of `next` by
+	 * the same middleware reject the call.
+	 */
+	public compose(
+		names: string[],
+		handler: (call: RpcCall) => Promise<any>
+	): (call: RpcCall) => Promise<any> {
+		return (call) => {
+			// Furthest step of the pipeline reached, `next` runs every step once
+			let reached = -1;
+
+			const dispatch = async (index: number): Promise<any> => {
+				if (index <= reached) {
+					throw new RpcError(
+						"MIDDLEWARE_NEXT_CALLED_TWICE",
+						`RPC middleware '${names[index - 1]}' of '${call.method}' called next more than once`
+					);
+				}
+				reached = index;
+
+				if (index === names.length) {
+					return handler(call);
+				}
+
+				const middleware = this.middlewares.get(names[index]);
+
+				if (!middleware) {
+					throw new RpcError(
+						"MIDDLEWARE_NOT_FOUND",
+						`RPC middleware '${names[index]}' of '${call.method}' is not registered`
+					);
+				}
+
+				return middleware(call, () => dispatch(index + 1));
+			};
+
+			return dispatch(0);
+		};
+	}
+}
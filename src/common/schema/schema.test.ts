@@ -0,0 +1,155 @@
+import { expect, test } from "bun:test";
+import { schema, SchemaValidationError } from "./schema";
+
+const messages = (issues: { path: string; message: string }[]) =>
+	issues.map((issue) => `${issue.path} ${issue.message}`);
+
+test("strings check their type, length and pattern", () => {
+	const name = schema.string({ min: 3, max: 5, pattern: /^[a-z]+$/ });
+
+	expect(name.is("anna")).toBe(true);
+	expect(messages(name.validate(7))).toEqual([" must be a string, got number"]);
+	expect(messages(name.validate("AB"))).toEqual([
+		" must be at least 3 characters long",
+		" must match /^[a-z]+$/",
+	]);
+	expect(messages(name.validate("abcdef"))).toEqual([
+		" must be at most 5 characters long",
+	]);
+});
+
+test("numbers reject NaN, fractions of integers and values out of range", () => {
+	const count = schema.integer({ min: 1, max: 10 });
+
+	expect(count.is(10)).toBe(true);
+	expect(messages(count.validate(NaN))).toEqual([
+		" must be a finite number, got number",
+	]);
+	expect(messages(count.validate(Infinity))).toEqual([
+		" must be a finite number, got number",
+	]);
+	expect(messages(count.validate(0.5))).toEqual([
+		" must be an integer",
+		" must be at least 1",
+	]);
+	expect(messages(count.validate(11))).toEqual([" must be at most 10"]);
+	expect(schema.number().is(0.5)).toBe(true);
+});
+
+test("booleans, enums and any", () => {
+	enum Slot {
+		Main,
+		Backpack,
+	}
+
+	expect(schema.boolean().is(false)).toBe(true);
+	expect(messages(schema.boolean().validate("true"))).toEqual([
+		" must be a boolean, got string",
+	]);
+
+	expect(schema.enum(["main", "backpack"]).is("main")).toBe(true);
+	expect(messages(schema.enum(["main", "backpack"]).validate("bag"))).toEqual([
+		' must be one of "main", "backpack"',
+	]);
+	// The reverse mapping of numeric enums is left out
+	expect(schema.enum(Slot).is(Slot.Backpack)).toBe(true);
+	expect(schema.enum(Slot).is("Main")).toBe(false);
+
+	expect(schema.any().is(undefined)).toBe(true);
+});
+
+test("collects the issues of nested objects and arrays with their path", () => {
+	const order = schema.object({
+		id: schema.integer(),
+		items: schema.array(
+			schema.object({
+				name: schema.string({ min: 1 }),
+				count: schema.integer({ min: 1 }),
+			}),
+			{ max: 3 }
+		),
+	});
+
+	expect(order.is({ id: 1, items: [{ name: "bread", count: 2 }] })).toBe(true);
+	expect(
+		messages(
+			order.validate({
+				id: "1",
+				items: [{ name: "bread", count: 2 }, { name: "", count: 0 }, "milk"],
+				coupon: "FREE",
+			})
+		)
+	).toEqual([
+		"id must be a finite number, got string",
+		"items[1].name must be at least 1 characters long",
+		"items[1].count must be at least 1",
+		"items[2] must be an object, got string",
+		"coupon is not allowed",
+	]);
+	expect(messages(order.validate({ id: 1, items: [{}, {}, {}, {}] }))).toEqual([
+		"items must have at most 3 items",
+	]);
+	expect(messages(order.validate([]))).toEqual([
+		" must be an object, got array",
+	]);
+});
+
+test("optional and nullable fields", () => {
+	const player = schema.object(
+		{
+			name: schema.string(),
+			nickname: schema.string().optional(),
+			gang: schema.string().nullable(),
+		},
+		{ allowUnknownKeys: true }
+	);
+
+	expect(player.is({ name: "Anna", gang: null, level: 3 })).toBe(true);
+	expect(messages(player.validate({ name: "Anna" }))).toEqual([
+		"gang must be a string, got undefined",
+	]);
+	expect(messages(player.validate({ nickname: null, gang: "ballas" }))).toEqual(
+		[
+			"name must be a string, got undefined",
+			"nickname must be a string, got null",
+		]
+	);
+});
+
+test("tuples check every position and reject extra items", () => {
+	const args = schema.tuple(schema.string(), schema.integer().optional());
+
+	expect(args.is(["bread"])).toBe(true);
+	expect(messages(args.validate(["bread", 1, true]))).toEqual([
+		" must have at most 2 items",
+	]);
+	expect(messages(args.validate([1, "2"]))).toEqual([
+		"[0] must be a string, got number",
+		"[1] must be a finite number, got string",
+	]);
+});
+
+test("parse returns the value or throws every issue", () => {
+	const item = schema.object({
+		name: schema.string(),
+		count: schema.integer(),
+	});
+
+	expect(item.parse({ name: "bread", count: 2 })).toEqual({
+		name: "bread",
+		count: 2,
+	});
+
+	let error: unknown;
+	try {
+		item.parse({ name: 1 });
+	} catch (caught) {
+		error = caught;
+	}
+
+	expect(error).toBeInstanceOf(SchemaValidationError);
+	expect((error as SchemaValidationError).issues).toHaveLength(2);
+	expect((error as SchemaValidationError).message).toBe(
+		"Schema validation failed: name must be a string, got number, count must be a finite number, got undefined"
+	);
+});
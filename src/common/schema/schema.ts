@@ -0,0 +1,370 @@
+export interface SchemaIssue {
+	// e.g. "[1].items[0].count"
+	path: string;
+	message: string;
+}
+
+export class SchemaValidationError extends Error {
+	constructor(public readonly issues: SchemaIssue[]) {
+		super(
+			`Schema validation failed: ${issues
+				.map((issue) => `${issue.path || "value"} ${issue.message}`)
+				.join(", ")}`
+		);
+		this.name = "SchemaValidationError";
+	}
+}
+
+const describe = (value: unknown): string => {
+	if (value === null) {
+		return "null";
+	}
+
+	return Array.isArray(value) ? "array" : typeof value;
+};
+
+/**
+ * Base of every schema. `check` collects the issues of a value instead of
+ * stopping at the first one, so a log shows everything wrong with a payload.
+ */
+export abstract class Schema<T = unknown> {
+	// Only used to infer the type, never set
+	declare readonly _type: T;
+
+	public abstract check(
+		value: unknown,
+		path: string,
+		issues: SchemaIssue[]
+	): void;
+
+	public validate(value: unknown): SchemaIssue[] {
+		const issues: SchemaIssue[] = [];
+		this.check(value, "", issues);
+		return issues;
+	}
+
+	public is(value: unknown): value is T {
+		return this.validate(value).length === 0;
+	}
+
+	/**
+	 * Returns the value typed, throws a SchemaValidationError if it is invalid
+	 */
+	public parse(value: unknown): T {
+		const issues = this.validate(value);
+
+		if (issues.length > 0) {
+			throw new SchemaValidationError(issues);
+		}
+
+		return value as T;
+	}
+
+	public optional(): Schema<T | undefined> {
+		return new OptionalSchema(this);
+	}
+
+	public nullable(): Schema<T | null> {
+		return new NullableSchema(this);
+	}
+}
+
+export type Infer<S extends Schema<any>> = S["_type"];
+
+class OptionalSchema<T> extends Schema<T | undefined> {
+	constructor(private readonly inner: Schema<T>) {
+		super();
+	}
+
+	public check(value: unknown, path: string, issues: SchemaIssue[]): void {
+		if (value !== undefined) {
+			this.inner.check(value, path, issues);
+		}
+	}
+}
+
+class NullableSchema<T> extends Schema<T | null> {
+	constructor(private readonly inner: Schema<T>) {
+		super();
+	}
+
+	public check(value: unknown, path: string, issues: SchemaIssue[]): void {
+		if (value !== null) {
+			this.inner.check(value, path, issues);
+		}
+	}
+}
+
+export interface StringOptions {
+	min?: number;
+	max?: number;
+	pattern?: RegExp;
+}
+
+class StringSchema extends Schema<string> {
+	constructor(private readonly options: StringOptions) {
+		super();
+	}
+
+	public check(value: unknown, path: string, issues: SchemaIssue[]): void {
+		if (typeof value !== "string") {
+			issues.push({
+				path,
+				message: `must be a string, got ${describe(value)}`,
+			});
+			return;
+		}
+
+		const { min, max, pattern } = this.options;
+
+		if (min !== undefined && value.length < min) {
+			issues.push({ path, message: `must be at least ${min} characters long` });
+		}
+
+		if (max !== undefined && value.length > max) {
+			issues.push({ path, message: `must be at most ${max} characters long` });
+		}
+
+		if (pattern && !pattern.test(value)) {
+			issues.push({ path, message: `must match ${pattern}` });
+		}
+	}
+}
+
+export interface NumberOptions {
+	min?: number;
+	max?: number;
+	integer?: boolean;
+}
+
+class NumberSchema extends Schema<number> {
+	constructor(private readonly options: NumberOptions) {
+		super();
+	}
+
+	public check(value: unknown, path: string, issues: SchemaIssue[]): void {
+		// NaN and Infinity are never valid payloads
+		if (typeof value !== "number" || !Number.isFinite(value)) {
+			issues.push({
+				path,
+				message: `must be a finite number, got ${describe(value)}`,
+			});
+			return;
+		}
+
+		const { min, max, integer } = this.options;
+
+		if (integer && !Number.isInteger(value)) {
+			issues.push({ path, message: "must be an integer" });
+		}
+
+		if (min !== undefined && value < min) {
+			issues.push({ path, message: `must be at least ${min}` });
+		}
+
+		if (max !== undefined && value > max) {
+			issues.push({ path, message: `must be at most ${max}` });
+		}
+	}
+}
+
+class BooleanSchema extends Schema<boolean> {
+	public check(value: unknown, path: string, issues: SchemaIssue[]): void {
+		if (typeof value !== "boolean") {
+			issues.push({
+				path,
+				message: `must be a boolean, got ${describe(value)}`,
+			});
+		}
+	}
+}
+
+class AnySchema extends Schema<any> {
+	public check(): void {}
+}
+
+class EnumSchema<T extends string | number | boolean> extends Schema<T> {
+	constructor(private readonly values: readonly T[]) {
+		super();
+	}
+
+	public check(value: unknown, path: string, issues: SchemaIssue[]): void {
+		if (!this.values.includes(value as T)) {
+			issues.push({
+				path,
+				message: `must be one of ${this.values.map((v) => JSON.stringify(v)).join(", ")}`,
+			});
+		}
+	}
+}
+
+export interface ArrayOptions {
+	min?: number;
+	max?: number;
+}
+
+class ArraySchema<T> extends Schema<T[]> {
+	constructor(
+		private readonly item: Schema<T>,
+		private readonly options: ArrayOptions
+	) {
+		super();
+	}
+
+	public check(value: unknown, path: string, issues: SchemaIssue[]): void {
+		if (!Array.isArray(value)) {
+			issues.push({
+				path,
+				message: `must be an array, got ${describe(value)}`,
+			});
+			return;
+		}
+
+		const { min, max } = this.options;
+
+		if (min !== undefined && value.length < min) {
+			issues.push({ path, message: `must have at least ${min} items` });
+		}
+
+		// Large arrays are not walked, they are rejected anyway
+		if (max !== undefined && value.length > max) {
+			issues.push({ path, message: `must have at most ${max} items` });
+			return;
+		}
+
+		value.forEach((entry, index) =>
+			this.item.check(entry, `${path}[${index}]`, issues)
+		);
+	}
+}
+
+export type ObjectShape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends ObjectShape> = {
+	[K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+export type InferShape<S extends ObjectShape> = {
+	[K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+	[K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+export interface ObjectOptions {
+	// Unknown keys are rejected unless this is set
+	allowUnknownKeys?: boolean;
+}
+
+class ObjectSchema<S extends ObjectShape> extends Schema<InferShape<S>> {
+	constructor(
+		private readonly shape: S,
+		private readonly options: ObjectOptions
+	) {
+		super();
+	}
+
+	public check(value: unknown, path: string, issues: SchemaIssue[]): void {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			issues.push({
+				path,
+				message: `must be an object, got ${describe(value)}`,
+			});
+			return;
+		}
+
+		const record = value as Record<string, unknown>;
+
+		for (const key of Object.keys(this.shape)) {
+			this.shape[key].check(record[key], path ? `${path}.${key}` : key, issues);
+		}
+
+		if (!this.options.allowUnknownKeys) {
+			for (const key of Object.keys(record)) {
+				if (!(key in this.shape)) {
+					issues.push({
+						path: path ? `${path}.${key}` : key,
+						message: "is not allowed",
+					});
+				}
+			}
+		}
+	}
+}
+
+export type InferTuple<S extends readonly Schema<any>[]> = {
+	[K in keyof S]: S[K] extends Schema<infer T> ? T : never;
+};
+
+class TupleSchema<S extends readonly Schema<any>[]> extends Schema<
+	InferTuple<S>
+> {
+	constructor(private readonly items: S) {
+		super();
+	}
+
+	public check(value: unknown, path: string, issues: SchemaIssue[]): void {
+		if (!Array.isArray(value)) {
+			issues.push({
+				path,
+				message: `must be an array, got ${describe(value)}`,
+			});
+			return;
+		}
+
+		if (value.length > this.items.length) {
+			issues.push({
+				path,
+				message: `must have at most ${this.items.length} items`,
+			});
+		}
+
+		this.items.forEach((item, index) =>
+			item.check(value[index], `${path}[${index}]`, issues)
+		);
+	}
+}
+
+/**
+ * Builds schemas, e.g.
+ *
+ * ```ts
+ * const item = schema.object({
+ *   name: schema.string({ min: 1, max: 32 }),
+ *   count: schema.number({ integer: true, min: 1, max: 100 }),
+ *   slot: schema.enum(["main", "backpack"]).optional(),
+ * });
+ * ```
+ */
+export const schema = {
+	string: (options: StringOptions = {}): Schema<string> =>
+		new StringSchema(options),
+	number: (options: NumberOptions = {}): Schema<number> =>
+		new NumberSchema(options),
+	integer: (options: Omit<NumberOptions, "integer"> = {}): Schema<number> =>
+		new NumberSchema({ ...options, integer: true }),
+	boolean: (): Schema<boolean> => new BooleanSchema(),
+	any: (): Schema<any> => new AnySchema(),
+	/**
+	 * Accepts a list of values or a TypeScript enum
+	 */
+	enum: <T extends string | number | boolean>(
+		values: readonly T[] | Record<string, T>
+	): Schema<T> =>
+		new EnumSchema(
+			Array.isArray(values)
+				? values
+				: // Numeric enums map their values back to their names
+					Object.entries(values)
+						.filter(([key]) => Number.isNaN(Number(key)))
+						.map(([, value]) => value)
+		),
+	array: <T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> =>
+		new ArraySchema(item, options),
+	object: <S extends ObjectShape>(
+		shape: S,
+		options: ObjectOptions = {}
+	): Schema<InferShape<S>> => new ObjectSchema(shape, options),
+	tuple: <const S extends readonly Schema<any>[]>(
+		...items: S
+	): Schema<InferTuple<S>> => new TupleSchema(items),
+};
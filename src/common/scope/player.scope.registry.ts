@@ -0,0 +1,42 @@
+type PlayerScopeResolver = (token: any, parent?: any) => any;
+
+/**
+ * Keeps track of the classes decorated with `@Injectable({ scope: "player" })`.
+ * Lives outside of the container so the decorator can use it without
+ * depending on the PlayerScope service.
+ */
+export class PlayerScopeRegistry {
+	private static classes = new Set<any>();
+
+	private static resolver: PlayerScopeResolver | undefined;
+
+	public static register(target: any): void {
+		this.classes.add(target);
+	}
+
+	public static isPlayerScoped(target: any): boolean {
+		return this.classes.has(target);
+	}
+
+	public static getClasses(): any[] {
+		return Array.from(this.classes);
+	}
+
+	public static getResolver(): PlayerScopeResolver | undefined {
+		return this.resolver;
+	}
+
+	public static setResolver(resolver: PlayerScopeResolver | undefined): void {
+		this.resolver = resolver;
+	}
+
+	public static resolve<T>(token: any, parent?: any): T {
+		if (!this.resolver) {
+			throw new Error(
+				`${token?.name ?? String(token)} is player scoped, but the PlayerScope service is not running`
+			);
+		}
+
+		return this.resolver(token, parent);
+	}
+}
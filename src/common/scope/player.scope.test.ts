@@ -0,0 +1,108 @@
+import "reflect-metadata";
+import { afterEach, expect, test } from "bun:test";
+import { OnEvent } from "../decorator/Events/OnEvent";
+import { Inject } from "../decorator/Injectable";
+import { Provider } from "../decorator/Provider";
+import { Test, TestingModule } from "../testing/test";
+import { PlayerScope, PlayerSource } from "./player.scope";
+
+declare module "../events/EventMap" {
+	interface ServerEventMap {
+		"wallet:check": [];
+	}
+}
+
+const calls: any[] = [];
+const destroyed: number[] = [];
+
+@Provider({ scope: "player" })
+class WalletProvider {
+	@Inject(PlayerSource)
+	public readonly source: number;
+
+	onScopeDestroy() {
+		destroyed.push(this.source);
+	}
+}
+
+@Provider()
+class BankProvider {
+	@Inject(WalletProvider)
+	public readonly wallet: WalletProvider;
+
+	@OnEvent("wallet:check", { networked: true })
+	async check(source: number) {
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		calls.push([source, this.wallet.source]);
+	}
+}
+
+let testingModule: TestingModule | undefined;
+
+afterEach(async () => {
+	calls.length = 0;
+	destroyed.length = 0;
+	await testingModule?.close();
+	testingModule = undefined;
+});
+
+const compile = async () => {
+	testingModule = await Test.createTestingModule({
+		providers: [WalletProvider, BankProvider],
+	}).compile();
+
+	return testingModule.get<PlayerScope>(PlayerScope);
+};
+
+test("creates a scope when a player connects and disposes it on drop", async () => {
+	const playerScope = await compile();
+	const player = await testingModule!.emulator.connectPlayer();
+	expect(playerScope.has(player.id)).toBe(true);
+
+	const wallet = playerScope.resolve<WalletProvider>(
+		WalletProvider,
+		undefined,
+		player.id
+	);
+	expect(wallet.source).toBe(player.id);
+	expect(playerScope.resolve(WalletProvider, undefined, player.id)).toBe(
+		wallet
+	);
+
+	await testingModule!.emulator.dropPlayer(player.id);
+	await testingModule!.emulator.flush();
+
+	expect(playerScope.has(player.id)).toBe(false);
+	expect(destroyed).toEqual([player.id]);
+});
+
+test("keeps the player of a handler across its awaits", async () => {
+	await compile();
+	const first = await testingModule!.emulator.connectPlayer();
+	const second = await testingModule!.emulator.connectPlayer();
+
+	first.emitNet("wallet:check");
+	second.emitNet("wallet:check");
+	await testingModule!.emulator.flush();
+	await new Promise((resolve) => setTimeout(resolve, 20));
+
+	expect(calls).toContainEqual([first.id, first.id]);
+	expect(calls).toContainEqual([second.id, second.id]);
+});
+
+test("rejects resolving without a player or for a dropped player", async () => {
+	const playerScope = await compile();
+	const player = await testingModule!.emulator.connectPlayer();
+	await testingModule!.emulator.dropPlayer(player.id);
+	await testingModule!.emulator.flush();
+
+	expect(() => playerScope.resolve(WalletProvider)).toThrow(
+		"WalletProvider is player scoped and can only be resolved while handling an event of a player"
+	);
+	expect(() =>
+		playerScope.resolve(WalletProvider, undefined, player.id)
+	).toThrow(
+		`WalletProvider is player scoped, but player ${player.id} is not connected`
+	);
+	expect(playerScope.has(player.id)).toBe(false);
+});
@@ -0,0 +1,311 @@
+import { Container } from "inversify";
+import { Inject, Injectable, Optional } from "../decorator/Injectable";
+import { EventsServer } from "../events/Server";
+import { getGlobalContainer } from "../global";
+import { hasLifecycleHook } from "../lifecycle";
+import { Logger } from "../logger/logger";
+import { PlayerScopeRegistry } from "./player.scope.registry";
+
+/**
+ * Token of the player source inside a player scope
+ */
+export const PlayerSource = "PlayerSource";
+
+/**
+ * Token of the storage keeping the current player across the awaits of a
+ * handler. The server entry binds an AsyncLocalStorage, common code must not
+ * import `async_hooks` as the client bundle has no Node built-ins.
+ */
+export const PlayerScopeStorage = "PlayerScopeStorage";
+
+export interface PlayerScopeStorage {
+	run<T>(source: number, fn: () => T): T;
+	getStore(): number | undefined;
+}
+
+/**
+ * Knows the player only until the callback returns, used if no storage is bound
+ */
+class SyncPlayerScopeStorage implements PlayerScopeStorage {
+	private current: number | undefined;
+
+	public run<T>(source: number, fn: () => T): T {
+		const previous = this.current;
+		this.current = source;
+
+		try {
+			return fn();
+		} finally {
+			this.current = previous;
+		}
+	}
+
+	public getStore(): number | undefined {
+		return this.current;
+	}
+}
+
+interface PlayerScopeEntry {
+	source: number;
+	// One scope container per parent container (global or module container)
+	containers: Map<Container, Container>;
+	instances: any[];
+}
+
+/**
+ * Creates a child container per connected player holding the instances of
+ * every class decorated with `@Injectable({ scope: "player" })`.
+ *
+ * Outside of the scope containers these classes are injected as proxies. The
+ * player they forward to is taken from `run()`, which the server event
+ * middleware wraps around every networked handler. The player is kept in the
+ * bound PlayerScopeStorage, so it stays known across the awaits of the handler.
+ */
+@Injectable()
+export class PlayerScope {
+	private readonly scopes = new Map<number, PlayerScopeEntry>();
+	private readonly container = getGlobalContainer();
+	private readonly listeners: [string, (...args: any[]) => void][] = [];
+	// Players who left, their late calls must not create a new scope
+	private readonly dropped = new Set<number>();
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public constructor(
+		// The player of the running handler, kept across its awaits
+		@Inject(PlayerScopeStorage)
+		@Optional()
+		private readonly storage: PlayerScopeStorage = new SyncPlayerScopeStorage()
+	) {
+		PlayerScopeRegistry.setResolver((token, parent) =>
+			this.createProxy(token, parent)
+		);
+	}
+
+	/**
+	 * Creates and disposes scopes along the connection of the players
+	 */
+	public start(): void {
+		if (this.listeners.length > 0) {
+			return;
+		}
+
+		this.listen(EventsServer.PlayerIsJoining, () => {
+			this.create(this.getEventSource());
+		});
+
+		// The source changes once the player finished connecting
+		this.listen(EventsServer.PlayerJoining, (oldSource: string) => {
+			this.move(Number(oldSource), this.getEventSource());
+		});
+
+		this.listen(EventsServer.PlayerLeft, () => {
+			const source = this.getEventSource();
+
+			this.dropped.add(source);
+			this.dispose(source).catch((error) => {
+				this.logger.error("[scope] Failed to dispose player scope", error);
+			});
+		});
+	}
+
+	public async stop(): Promise<void> {
+		for (const [eventName, handler] of this.listeners) {
+			removeEventListener(eventName, handler);
+		}
+		this.listeners.length = 0;
+
+		for (const source of Array.from(this.scopes.keys())) {
+			await this.dispose(source);
+		}
+
+		this.dropped.clear();
+	}
+
+	public create(source: number): void {
+		this.dropped.delete(source);
+
+		if (this.scopes.has(source)) {
+			return;
+		}
+
+		this.scopes.set(source, {
+			source,
+			containers: new Map(),
+			instances: [],
+		});
+		this.logger.debug(`[scope] Created scope for player ${source}`);
+	}
+
+	public async dispose(source: number): Promise<void> {
+		const entry = this.scopes.get(source);
+		if (!entry) {
+			return;
+		}
+
+		this.scopes.delete(source);
+
+		for (const instance of [...entry.instances].reverse()) {
+			if (!hasLifecycleHook(instance, "onScopeDestroy")) {
+				continue;
+			}
+
+			try {
+				await instance.onScopeDestroy();
+			} catch (error) {
+				this.logger.error(
+					`[scope] ${instance.constructor.name}.onScopeDestroy failed:`,
+					error
+				);
+			}
+		}
+
+		for (const scopeContainer of entry.containers.values()) {
+			await scopeContainer.unbindAll();
+		}
+
+		this.logger.debug(`[scope] Disposed scope for player ${source}`);
+	}
+
+	public has(source: number): boolean {
+		return this.scopes.has(source);
+	}
+
+	/**
+	 * Runs the callback with the given player as the current scope
+	 */
+	public run<T>(source: number, fn: () => T): T {
+		return this.storage.run(source, fn);
+	}
+
+	public getCurrentSource(): number | undefined {
+		return this.storage.getStore();
+	}
+
+	/**
+	 * Resolves a player scoped token for the given or current player. The parent
+	 * is the container the token is visible in, e.g. the one of its module.
+	 * Players connected before the scope started get their scope on first use,
+	 * players who left or never existed throw.
+	 */
+	public resolve<T>(
+		token: any,
+		parent: Container = this.container,
+		source: number | undefined = this.getCurrentSource()
+	): T {
+		if (source === undefined) {
+			throw new Error(
+				`${token?.name ?? String(token)} is player scoped and can only be resolved while handling an event of a player`
+			);
+		}
+
+		if (!this.scopes.has(source)) {
+			if (this.dropped.has(source) || !DoesPlayerExist(String(source))) {
+				throw new Error(
+					`${token?.name ?? String(token)} is player scoped, but player ${source} is not connected`
+				);
+			}
+
+			this.create(source);
+		}
+
+		const entry = this.scopes.get(source)!;
+		const scopeContainer = this.getScopeContainer(entry, parent);
+
+		if (!scopeContainer.isCurrentBound(token)) {
+			scopeContainer.bind(token).toSelf().inSingletonScope();
+		}
+
+		return this.run(source, () => {
+			const instance = scopeContainer.get<T>(token);
+
+			if (!entry.instances.includes(instance)) {
+				entry.instances.push(instance);
+			}
+
+			return instance;
+		});
+	}
+
+	/**
+	 * Stand-in for a player scoped class, injected wherever the class is
+	 * requested outside of its scope container. Methods and properties are
+	 * forwarded to the instance of the current player, so singletons and
+	 * registered handlers never hold on to the instance of a single player.
+	 */
+	public createProxy<T>(
+		target: new (...args: any[]) => T,
+		parent: Container = this.container
+	): T {
+		const prototype = target.prototype;
+		const current = (): any => this.resolve(target, parent);
+
+		return new Proxy(Object.create(prototype), {
+			get: (base, property) => {
+				// The container checks for "then" to detect async values
+				if (
+					typeof property === "symbol" ||
+					property in Object.prototype ||
+					(property === "then" && !(property in prototype))
+				) {
+					return Reflect.get(base, property);
+				}
+
+				// Methods can be bound before a player is known, e.g. by the loaders
+				if (typeof prototype[property] === "function") {
+					return (...args: any[]) => current()[property](...args);
+				}
+
+				return current()[property];
+			},
+			set: (_base, property, value) => {
+				current()[property] = value;
+				return true;
+			},
+		});
+	}
+
+	private getScopeContainer(
+		entry: PlayerScopeEntry,
+		parent: Container
+	): Container {
+		let scopeContainer = entry.containers.get(parent);
+
+		if (!scopeContainer) {
+			scopeContainer = new Container({ parent, defaultScope: "Singleton" });
+			scopeContainer.bind(PlayerSource).toConstantValue(entry.source);
+			entry.containers.set(parent, scopeContainer);
+		}
+
+		return scopeContainer;
+	}
+
+	private move(oldSource: number, newSource: number): void {
+		const entry = this.scopes.get(oldSource);
+		if (!entry || oldSource === newSource) {
+			return;
+		}
+
+		this.scopes.delete(oldSource);
+		entry.source = newSource;
+
+		for (const scopeContainer of entry.containers.values()) {
+			scopeContainer.rebindSync(PlayerSource).toConstantValue(newSource);
+		}
+
+		this.scopes.set(newSource, entry);
+		this.logger.debug(
+			`[scope] Moved scope of player ${oldSource} to ${newSource}`
+		);
+	}
+
+	private listen(eventName: string, handler: (...args: any[]) => void): void {
+		addEventListener(eventName, handler);
+		this.listeners.push([eventName, handler]);
+	}
+
+	private getEventSource(): number {
+		return Number((globalThis as any).source);
+	}
+}
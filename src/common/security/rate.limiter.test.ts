@@ -0,0 +1,158 @@
+import "reflect-metadata";
+import { afterEach, expect, test } from "bun:test";
+import { OnEvent } from "../decorator/Events/OnEvent";
+import { Provider } from "../decorator/Provider";
+import { LogLevel } from "../logger/log-level";
+import { CfxEmulator } from "../testing/emulator/emulator";
+import { Test, TestingModule } from "../testing/test";
+import {
+	RateLimiter,
+	SecurityViolationEvent,
+	type SecurityViolation,
+} from "./rate.limiter";
+
+declare module "../events/EventMap" {
+	interface ServerEventMap {
+		"shop:buy": [itemId: number];
+	}
+}
+
+const calls: any[] = [];
+
+@Provider()
+class ShopProvider {
+	@OnEvent("shop:buy", { rateLimit: { capacity: 1, refillPerSecond: 1 } })
+	buy(source: number, itemId: number) {
+		calls.push([source, itemId]);
+	}
+}
+
+let testingModule: TestingModule | undefined;
+let emulator: CfxEmulator | undefined;
+
+afterEach(async () => {
+	calls.length = 0;
+	await testingModule?.close();
+	emulator?.uninstall();
+	testingModule = undefined;
+	emulator = undefined;
+});
+
+// The buckets refill along the clock of the emulator
+const compile = async () => {
+	emulator = new CfxEmulator({ fakeTimers: true }).install("server");
+	testingModule = await Test.createTestingModule({
+		providers: [ShopProvider],
+		emulator,
+	}).compile();
+
+	return testingModule.get<RateLimiter>(RateLimiter);
+};
+
+test("refills the bucket over time up to its capacity", async () => {
+	const rateLimiter = await compile();
+	rateLimiter.setPolicy("drop");
+	const limit = { capacity: 2, refillPerSecond: 2 };
+	const consume = () => rateLimiter.consume(1, "event", "shop:buy", limit);
+
+	expect([consume(), consume(), consume()]).toEqual([true, true, false]);
+
+	await testingModule!.advanceTime(500);
+	expect([consume(), consume()]).toEqual([true, false]);
+
+	await testingModule!.advanceTime(250);
+	expect(consume()).toBe(false);
+
+	await testingModule!.advanceTime(10000);
+	expect([consume(), consume(), consume()]).toEqual([true, true, false]);
+});
+
+test("drops the net events of a player over the limit of the handler", async () => {
+	await compile();
+	const player = await testingModule!.getPlayer();
+
+	await testingModule!.emitNet("shop:buy", 1);
+	await testingModule!.emitNet("shop:buy", 2);
+	await testingModule!.advanceTime(1000);
+	await testingModule!.emitNet("shop:buy", 3);
+
+	expect(calls).toEqual([
+		[player.id, 1],
+		[player.id, 3],
+	]);
+});
+
+test("does not limit calls without a player source", async () => {
+	const rateLimiter = await compile();
+	const limit = { capacity: 1, refillPerSecond: 0, policy: "drop" as const };
+
+	for (const source of [0, -1, NaN]) {
+		expect(rateLimiter.consume(source, "rpc", "getItems", limit)).toBe(true);
+		expect(rateLimiter.consume(source, "rpc", "getItems", limit)).toBe(true);
+	}
+	expect(rateLimiter.getTrackedSources()).toEqual([]);
+
+	// Local events have no source
+	await testingModule!.emit("shop:buy", 1);
+	await testingModule!.emit("shop:buy", 2);
+	expect(calls.map(([, itemId]) => itemId)).toEqual([1, 2]);
+});
+
+test("applies the violation policies", async () => {
+	const rateLimiter = await compile();
+	const player = await testingModule!.getPlayer();
+	const exceed = (name: string, policy: any) => {
+		const limit = { capacity: 0, refillPerSecond: 0, policy };
+		return rateLimiter.consume(player.id, "event", name, limit);
+	};
+
+	expect(exceed("drop", "drop")).toBe(false);
+	expect(
+		testingModule!.logger.hasLog(
+			`Rate limited event drop from source ${player.id} (1 violations)`,
+			LogLevel.Debug
+		)
+	).toBe(true);
+
+	exceed("warn", "warn");
+	exceed("warn", "warn");
+	expect(
+		testingModule!.logger.hasLog(
+			`Rate limited event warn from source ${player.id} (2 violations)`,
+			LogLevel.Warn
+		)
+	).toBe(true);
+
+	const handled: SecurityViolation[] = [];
+	exceed("function", (violation: SecurityViolation) => handled.push(violation));
+	expect(handled).toMatchObject([
+		{ type: "rate_limit", source: player.id, name: "function", count: 1 },
+	]);
+
+	const emitted: SecurityViolation[] = [];
+	testingModule!.emulator.server.on(SecurityViolationEvent, (violation) =>
+		emitted.push(violation)
+	);
+	exceed("event", "event");
+	expect(emitted).toMatchObject([{ source: player.id, name: "event" }]);
+
+	exceed("kick", "kick");
+	await testingModule!.emulator.flush();
+	expect(player.connected).toBe(false);
+	expect(rateLimiter.getTrackedSources()).not.toContain(player.id);
+});
+
+test("removes the buckets of a player who dropped", async () => {
+	const rateLimiter = await compile();
+	const player = await testingModule!.getPlayer();
+	const other = await testingModule!.emulator.connectPlayer();
+
+	rateLimiter.consume(player.id, "event", "shop:buy");
+	rateLimiter.consume(other.id, "event", "shop:buy");
+	expect(rateLimiter.getTrackedSources()).toEqual([player.id, other.id]);
+
+	await testingModule!.emulator.dropPlayer(player.id);
+	await testingModule!.emulator.flush();
+
+	expect(rateLimiter.getTrackedSources()).toEqual([other.id]);
+});
@@ -0,0 +1,205 @@
+import { Inject, Injectable } from "../decorator/Injectable";
+import { EventsServer } from "../events/Server";
+import { Logger } from "../logger/logger";
+
+/**
+ * Emitted locally on the server for every violation when the policy is "event"
+ */
+export const SecurityViolationEvent = "Eterna:security:violation";
+
+export interface SecurityViolation {
+	type: "rate_limit";
+	source: number;
+	kind: "event" | "rpc";
+	// Event or RPC name
+	name: string;
+	// Violations of this player since the bucket was created
+	count: number;
+	timestamp: number;
+}
+
+export type ViolationHandler = (violation: SecurityViolation) => void;
+
+/**
+ * What happens on a violation. The call is dropped in every case.
+ */
+export type ViolationPolicy =
+	"drop" | "warn" | "kick" | "event" | ViolationHandler;
+
+export type RateLimitOptions = {
+	// Calls a player can make at once
+	capacity: number;
+	// Calls added back per second
+	refillPerSecond: number;
+	policy?: ViolationPolicy;
+};
+
+export type RateLimiterOptions = {
+	// Applied to networked events and RPCs without own limit, false disables it
+	defaultLimit?: RateLimitOptions | false;
+	policy?: ViolationPolicy;
+	kickReason?: string;
+};
+
+interface TokenBucket {
+	tokens: number;
+	updatedAt: number;
+	violations: number;
+}
+
+/**
+ * Token buckets per player source and event or RPC name
+ */
+@Injectable()
+export class RateLimiter {
+	private readonly buckets = new Map<number, Map<string, TokenBucket>>();
+	private options: Required<RateLimiterOptions> = {
+		defaultLimit: { capacity: 20, refillPerSecond: 10 },
+		policy: "warn",
+		kickReason: "Too many requests",
+	};
+	private dropListener: (() => void) | undefined;
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public configure(options: RateLimiterOptions): void {
+		this.options = { ...this.options, ...options };
+	}
+
+	public setPolicy(policy: ViolationPolicy): void {
+		this.options.policy = policy;
+	}
+
+	/**
+	 * Removes the buckets of players once they dropped
+	 */
+	public start(): void {
+		if (this.dropListener) {
+			return;
+		}
+
+		this.dropListener = () => {
+			this.clear(Number((globalThis as any).source));
+		};
+
+		addEventListener(EventsServer.PlayerLeft, this.dropListener, false);
+	}
+
+	public stop(): void {
+		if (this.dropListener) {
+			removeEventListener(EventsServer.PlayerLeft, this.dropListener);
+			this.dropListener = undefined;
+		}
+
+		this.buckets.clear();
+	}
+
+	/**
+	 * Takes a token from the bucket of the player. Returns false and applies the
+	 * policy if the bucket is empty. Calls without a player source are not
+	 * limited.
+	 */
+	public consume(
+		source: number,
+		kind: SecurityViolation["kind"],
+		name: string,
+		limit?: RateLimitOptions | false
+	): boolean {
+		const effectiveLimit = limit ?? this.options.defaultLimit;
+
+		if (!effectiveLimit || !Number.isFinite(source) || source <= 0) {
+			return true;
+		}
+
+		const bucket = this.getBucket(source, `${kind}:${name}`, effectiveLimit);
+
+		if (bucket.tokens >= 1) {
+			bucket.tokens--;
+			return true;
+		}
+
+		bucket.violations++;
+		this.handleViolation(
+			{
+				type: "rate_limit",
+				source,
+				kind,
+				name,
+				count: bucket.violations,
+				timestamp: Date.now(),
+			},
+			effectiveLimit.policy ?? this.options.policy
+		);
+
+		return false;
+	}
+
+	public clear(source: number): void {
+		this.buckets.delete(source);
+	}
+
+	public getTrackedSources(): number[] {
+		return Array.from(this.buckets.keys());
+	}
+
+	private getBucket(
+		source: number,
+		key: string,
+		limit: RateLimitOptions
+	): TokenBucket {
+		let playerBuckets = this.buckets.get(source);
+		if (!playerBuckets) {
+			playerBuckets = new Map();
+			this.buckets.set(source, playerBuckets);
+		}
+
+		const now = GetGameTimer();
+		let bucket = playerBuckets.get(key);
+
+		if (!bucket) {
+			bucket = { tokens: limit.capacity, updatedAt: now, violations: 0 };
+			playerBuckets.set(key, bucket);
+			return bucket;
+		}
+
+		const refill = ((now - bucket.updatedAt) / 1000) * limit.refillPerSecond;
+		bucket.tokens = Math.min(limit.capacity, bucket.tokens + refill);
+		bucket.updatedAt = now;
+
+		return bucket;
+	}
+
+	private handleViolation(
+		violation: SecurityViolation,
+		policy: ViolationPolicy
+	): void {
+		const description = `${violation.kind} ${violation.name} from source ${violation.source} (${violation.count} violations)`;
+
+		try {
+			if (typeof policy === "function") {
+				policy(violation);
+				return;
+			}
+
+			switch (policy) {
+				case "drop":
+					this.logger.debug(`[security] Rate limited ${description}`);
+					break;
+				case "warn":
+					this.logger.warn(`[security] Rate limited ${description}`);
+					break;
+				case "kick":
+					this.logger.warn(`[security] Kicking for ${description}`);
+					this.clear(violation.source);
+					DropPlayer(String(violation.source), this.options.kickReason);
+					break;
+				case "event":
+					TriggerEvent(SecurityViolationEvent, violation);
+					break;
+			}
+		} catch (error) {
+			this.logger.error("[security] Violation policy failed", error);
+		}
+	}
+}
@@ -0,0 +1,5 @@
+/**
+ * Whether the framework runs on the server. Read once from the natives while
+ * the module is imported, so it has no imports of its own.
+ */
+export const isServer = IsDuplicityVersion();
@@ -0,0 +1,73 @@
+import { Logger } from "../logger/logger";
+import { LogLevel } from "../logger/log-level";
+
+export interface CapturedLog {
+	level: LogLevel;
+	message: string;
+	args: any[];
+}
+
+/**
+ * Logger collecting every entry instead of writing it, so tests can assert on
+ * what was logged
+ */
+export class CapturingLogger extends Logger {
+	public readonly logs: CapturedLog[] = [];
+
+	constructor(private readonly print = false) {
+		super();
+	}
+
+	public debug(...message: any[]): void {
+		this.capture(LogLevel.Debug, message);
+	}
+
+	public info(...message: any[]): void {
+		this.capture(LogLevel.Info, message);
+	}
+
+	public warn(...message: any[]): void {
+		this.capture(LogLevel.Warn, message);
+	}
+
+	public error(...message: any[]): void {
+		this.capture(LogLevel.Error, message);
+	}
+
+	public log(level: LogLevel, ...message: any[]): void {
+		this.capture(level, message);
+	}
+
+	public getLogs(level?: LogLevel): CapturedLog[] {
+		return level ? this.logs.filter((log) => log.level === level) : this.logs;
+	}
+
+	/**
+	 * Whether an entry contains the text or matches the pattern
+	 */
+	public hasLog(pattern: string | RegExp, level?: LogLevel): boolean {
+		return this.getLogs(level).some((log) =>
+			typeof pattern === "string"
+				? log.message.includes(pattern)
+				: pattern.test(log.message)
+		);
+	}
+
+	public clear(): void {
+		this.logs.length = 0;
+	}
+
+	private capture(level: LogLevel, args: any[]): void {
+		const message = args
+			.map((arg) =>
+				arg instanceof Error ? `${arg.name}: ${arg.message}` : String(arg)
+			)
+			.join(" ");
+
+		this.logs.push({ level, message, args });
+
+		if (this.print) {
+			console.log(`[${level}] ${message}`);
+		}
+	}
+}
@@ -0,0 +1,120 @@
+type TimerCallback = (...args: any[]) => void;
+
+interface VirtualTimer {
+	callback: TimerCallback;
+	args: any[];
+	at: number;
+	interval?: number;
+}
+
+// Captured before fake timers can replace the globals
+const realSetImmediate = globalThis.setImmediate;
+const realSetTimeout = globalThis.setTimeout;
+
+/**
+ * Resolves after every pending microtask and I/O callback ran
+ */
+export const nextMacrotask = (): Promise<void> =>
+	new Promise((resolve) =>
+		realSetImmediate
+			? realSetImmediate(() => resolve())
+			: realSetTimeout(() => resolve(), 0)
+	);
+
+/**
+ * Time source of the emulator. `GetGameTimer` reads from it and, with fake
+ * timers installed, so do `setTimeout` and `setInterval`. Time only moves
+ * when `advance` is called.
+ */
+export class VirtualClock {
+	private time: number;
+	private readonly timers = new Map<number, VirtualTimer>();
+	private nextTimerId = 1;
+
+	constructor(startTime = 0) {
+		this.time = startTime;
+	}
+
+	public now(): number {
+		return this.time;
+	}
+
+	public setTimeout(callback: TimerCallback, ms = 0, ...args: any[]): number {
+		const id = this.nextTimerId++;
+		this.timers.set(id, { callback, args, at: this.time + Math.max(0, ms) });
+		return id;
+	}
+
+	public setInterval(callback: TimerCallback, ms = 0, ...args: any[]): number {
+		const interval = Math.max(1, ms);
+		const id = this.nextTimerId++;
+		this.timers.set(id, { callback, args, at: this.time + interval, interval });
+		return id;
+	}
+
+	public clearTimer(id: number | undefined): void {
+		if (id !== undefined) {
+			this.timers.delete(Number(id));
+		}
+	}
+
+	public getPendingTimers(): number {
+		return this.timers.size;
+	}
+
+	/**
+	 * Moves the time forward and runs every timer due on the way, in order.
+	 * Microtasks are drained after each timer so chained timeouts (e.g. `await
+	 * sleep()` in a loop) are scheduled before the next one is picked.
+	 */
+	public async advance(ms: number): Promise<void> {
+		const target = this.time + Math.max(0, ms);
+
+		for (;;) {
+			const next = this.getNextTimer(target);
+			if (!next) {
+				break;
+			}
+
+			const [id, timer] = next;
+			this.time = timer.at;
+
+			if (timer.interval) {
+				timer.at += timer.interval;
+			} else {
+				this.timers.delete(id);
+			}
+
+			timer.callback(...timer.args);
+			await nextMacrotask();
+		}
+
+		this.time = target;
+	}
+
+	/**
+	 * Replacements for the timer globals, installed by the emulator on request
+	 */
+	public createTimerGlobals(): Record<string, Function> {
+		return {
+			setTimeout: (callback: TimerCallback, ms?: number, ...args: any[]) =>
+				this.setTimeout(callback, ms, ...args),
+			setInterval: (callback: TimerCallback, ms?: number, ...args: any[]) =>
+				this.setInterval(callback, ms, ...args),
+			clearTimeout: (id?: number) => this.clearTimer(id),
+			clearInterval: (id?: number) => this.clearTimer(id),
+		};
+	}
+
+	private getNextTimer(target: number): [number, VirtualTimer] | undefined {
+		let next: [number, VirtualTimer] | undefined;
+
+		for (const entry of this.timers.entries()) {
+			if (entry[1].at <= target && (!next || entry[1].at < next[1].at)) {
+				next = entry;
+			}
+		}
+
+		return next;
+	}
+}
@@ -0,0 +1,390 @@
+import { nextMacrotask, VirtualClock } from "./clock";
+import { InMemoryNetwork, NetworkMessage } from "./network";
+import { CfxRuntime, CfxSide, EventHandler } from "./runtime";
+
+export interface CfxEmulatorOptions {
+	resourceName?: string;
+	// Virtual milliseconds per frame
+	frameTime?: number;
+	startTime?: number;
+	// Replace setTimeout / setInterval with the virtual clock
+	fakeTimers?: boolean;
+	// Print handler errors in addition to collecting them
+	logErrors?: boolean;
+}
+
+export interface EmulatedPlayerOptions {
+	name?: string;
+	identifiers?: string[];
+	endpoint?: string;
+	ping?: number;
+	// Aces IsPlayerAceAllowed grants, e.g. "command" for an admin
+	aces?: string[];
+}
+
+export interface EmulatorError {
+	name: string;
+	error: unknown;
+}
+
+export class PlayerRejectedError extends Error {
+	constructor(
+		public readonly playerName: string,
+		public readonly reason: string
+	) {
+		super(`Player ${playerName} was rejected while connecting: ${reason}`);
+		this.name = "PlayerRejectedError";
+	}
+}
+
+/**
+ * A simulated player with its own client runtime
+ */
+export class EmulatedPlayer {
+	public readonly client: CfxRuntime;
+	public readonly ped: number;
+	public connected = true;
+
+	constructor(
+		public id: number,
+		public readonly name: string,
+		public readonly identifiers: string[],
+		public readonly endpoint: string,
+		public readonly ping: number,
+		public readonly aces: string[],
+		emulator: CfxEmulator
+	) {
+		this.client = new CfxRuntime("client", emulator, this);
+		this.ped = 1000 + id;
+	}
+
+	/**
+	 * Sends a net event from this client to the server
+	 */
+	public emitNet(eventName: string, ...args: any[]): void {
+		this.client.emitNet(eventName, ...args);
+	}
+
+	/**
+	 * Listens for net events the server sends to this client
+	 */
+	public onNet(eventName: string, handler: EventHandler): void {
+		this.client.onNet(eventName, handler);
+	}
+}
+
+/**
+ * In-process emulation of the CFX natives the framework uses, so it can run
+ * under `bun test` without a FiveM server. The emulator holds the server and
+ * one client runtime per player, connected by an in-memory network.
+ *
+ * `install` puts the natives of one side on globalThis. It has to run before
+ * the framework is imported, since `isServer` is read at import time:
+ *
+ * ```ts
+ * const emulator = new CfxEmulator().install("server");
+ * const { Application } = await import("../app");
+ * const player = await emulator.connectPlayer({ name: "Jane" });
+ * player.emitNet("inventory:open");
+ * await emulator.flush();
+ * ```
+ */
+export class CfxEmulator {
+	public readonly resourceName: string;
+	public readonly clock: VirtualClock;
+	public readonly network: InMemoryNetwork;
+	public readonly server: CfxRuntime;
+	public readonly errors: EmulatorError[] = [];
+
+	private readonly options: Required<CfxEmulatorOptions>;
+	private readonly players = new Map<number, EmulatedPlayer>();
+	private readonly resources = new Map<string, string>();
+	private installed:
+		| {
+				runtime: CfxRuntime;
+				previous: Map<string, PropertyDescriptor | undefined>;
+		  }
+		| undefined;
+	private nextPlayerId = 1;
+	private nextTemporaryId = 65536;
+
+	constructor(options: CfxEmulatorOptions = {}) {
+		this.options = {
+			resourceName: "eterna",
+			frameTime: 16,
+			startTime: 0,
+			fakeTimers: false,
+			logErrors: true,
+			...options,
+		};
+
+		this.resourceName = this.options.resourceName;
+		this.clock = new VirtualClock(this.options.startTime);
+		this.network = new InMemoryNetwork(
+			(message) => this.deliver(message),
+			() => this.clock.now()
+		);
+		this.server = new CfxRuntime("server", this);
+		this.resources.set(this.resourceName, "started");
+	}
+
+	/**
+	 * Installs the natives of the given side as globals. The client side runs
+	 * as the given player, or as a new one.
+	 */
+	public install(side: CfxSide = "server", player?: EmulatedPlayer): this {
+		if (this.installed) {
+			throw new Error("The CFX emulator is already installed");
+		}
+
+		const runtime =
+			side === "server"
+				? this.server
+				: (player ?? this.createPlayer({ name: "LocalPlayer" })).client;
+
+		const globals: Record<string, any> = {
+			...runtime.createNatives(),
+			...(this.options.fakeTimers ? this.clock.createTimerGlobals() : {}),
+			source: "",
+		};
+
+		const previous = new Map<string, PropertyDescriptor | undefined>();
+
+		for (const [name, value] of Object.entries(globals)) {
+			previous.set(name, Object.getOwnPropertyDescriptor(globalThis, name));
+			Object.defineProperty(globalThis, name, {
+				value,
+				writable: true,
+				configurable: true,
+			});
+		}
+
+		this.installed = { runtime, previous };
+		return this;
+	}
+
+	/**
+	 * Restores the globals replaced by `install`
+	 */
+	public uninstall(): void {
+		if (!this.installed) {
+			return;
+		}
+
+		for (const [name, descriptor] of this.installed.previous) {
+			if (descriptor) {
+				Object.defineProperty(globalThis, name, descriptor);
+			} else {
+				delete (globalThis as any)[name];
+			}
+		}
+
+		this.installed = undefined;
+	}
+
+	/**
+	 * The runtime whose natives are installed as globals
+	 */
+	public getLocalRuntime(): CfxRuntime | undefined {
+		return this.installed?.runtime;
+	}
+
+	/**
+	 * Connects a player like the server would: `playerConnecting` under a
+	 * temporary id (deferrals are awaited), then `playerJoining` under the
+	 * final id. Rejects with a PlayerRejectedError if the connection is refused.
+	 */
+	public async connectPlayer(
+		options: EmulatedPlayerOptions = {}
+	): Promise<EmulatedPlayer> {
+		const name = options.name ?? `Player${this.nextPlayerId}`;
+		const temporaryId = this.nextTemporaryId++;
+		const rejection = await this.runConnecting(name, temporaryId);
+
+		if (rejection !== undefined) {
+			throw new PlayerRejectedError(name, rejection);
+		}
+
+		const player = this.createPlayer({ ...options, name });
+
+		this.server.dispatch("playerJoining", [String(temporaryId)], {
+			source: player.id,
+		});
+		player.client.dispatch("onClientResourceStart", [this.resourceName]);
+		await this.flush();
+
+		return player;
+	}
+
+	/**
+	 * Disconnects a player, firing `playerDropped` on the server
+	 */
+	public async dropPlayer(id: number, reason = "Disconnected."): Promise<void> {
+		const player = this.players.get(id);
+		if (!player) {
+			return;
+		}
+
+		player.connected = false;
+		this.players.delete(id);
+		this.network.disconnect(id);
+		this.server.dispatch("playerDropped", [reason], { source: id });
+		await this.flush();
+	}
+
+	public getPlayer(id: number): EmulatedPlayer | undefined {
+		return this.players.get(id);
+	}
+
+	public getPlayers(): EmulatedPlayer[] {
+		return Array.from(this.players.values());
+	}
+
+	public getResourceState(resource: string): string {
+		return this.resources.get(resource) ?? "missing";
+	}
+
+	public startResource(resource: string): void {
+		this.resources.set(resource, "started");
+		this.server.dispatch("onResourceStart", [resource]);
+		this.server.dispatch("onServerResourceStart", [resource]);
+
+		for (const player of this.players.values()) {
+			player.client.dispatch("onClientResourceStart", [resource]);
+		}
+	}
+
+	/**
+	 * Stops a resource. Stopping the emulated resource itself triggers the
+	 * shutdown of an Application listening for `onResourceStop`.
+	 */
+	public stopResource(resource: string): void {
+		this.server.dispatch("onResourceStop", [resource]);
+		this.server.dispatch("onServerResourceStop", [resource]);
+
+		for (const player of this.players.values()) {
+			player.client.dispatch("onResourceStop", [resource]);
+			player.client.dispatch("onClientResourceStop", [resource]);
+		}
+
+		this.resources.set(resource, "stopped");
+	}
+
+	/**
+	 * Delivers every queued net event
+	 */
+	public async flush(): Promise<void> {
+		await this.network.flush();
+	}
+
+	/**
+	 * Runs the given number of frames: the clock moves by one frame time, net
+	 * events are delivered and every tick of every side runs once per frame
+	 */
+	public async step(frames = 1): Promise<void> {
+		for (let frame = 0; frame < frames; frame++) {
+			await this.clock.advance(this.options.frameTime);
+			await this.network.flush();
+
+			this.server.runTicks();
+			for (const player of this.players.values()) {
+				player.client.runTicks();
+			}
+
+			// Lets ticks which do not wait for anything finish within the frame
+			await nextMacrotask();
+			await this.network.flush();
+		}
+	}
+
+	/**
+	 * Moves the clock without running ticks, firing due fake timers
+	 */
+	public async advance(ms: number): Promise<void> {
+		await this.clock.advance(ms);
+		await this.network.flush();
+	}
+
+	public reportError(name: string, error: unknown): void {
+		this.errors.push({ name, error });
+
+		if (this.options.logErrors) {
+			console.error(`[emulator] Error in ${name}:`, error);
+		}
+	}
+
+	private createPlayer(options: EmulatedPlayerOptions): EmulatedPlayer {
+		const id = this.nextPlayerId++;
+		const player = new EmulatedPlayer(
+			id,
+			options.name ?? `Player${id}`,
+			options.identifiers ?? [`license:emulated${id}`],
+			options.endpoint ?? `127.0.0.1:${30000 + id}`,
+			options.ping ?? 0,
+			options.aces ?? [],
+			this
+		);
+
+		this.players.set(id, player);
+		return player;
+	}
+
+	/**
+	 * Fires `playerConnecting` and resolves with the rejection reason, if any
+	 */
+	private runConnecting(
+		name: string,
+		temporaryId: number
+	): Promise<string | undefined> {
+		return new Promise((resolve) => {
+			let deferred = false;
+			let kickReason: string | undefined;
+
+			const deferrals = {
+				defer: () => {
+					deferred = true;
+				},
+				update: () => {},
+				presentCard: () => {},
+				handover: () => {},
+				done: (reason?: string) => resolve(reason || undefined),
+			};
+
+			this.server.dispatch(
+				"playerConnecting",
+				[
+					name,
+					(reason: string) => {
+						kickReason = reason;
+					},
+					deferrals,
+				],
+				{ source: temporaryId }
+			);
+
+			if (!deferred) {
+				resolve(kickReason);
+			}
+		});
+	}
+
+	private deliver(message: NetworkMessage): void {
+		if (message.to === "server") {
+			if (!this.players.has(message.from as number)) {
+				return;
+			}
+
+			this.server.dispatch(message.event, message.args, {
+				remote: true,
+				source: message.from,
+			});
+			return;
+		}
+
+		// Like CFX, clients see the server as source 65535
+		this.players.get(message.to)?.client.dispatch(message.event, message.args, {
+			remote: true,
+			source: 65535,
+		});
+	}
+}
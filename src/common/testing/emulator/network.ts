@@ -0,0 +1,93 @@
+import { nextMacrotask } from "./clock";
+
+/**
+ * The server, or the id of a player
+ */
+export type NetworkPeer = "server" | number;
+
+export interface NetworkMessage {
+	event: string;
+	args: any[];
+	from: NetworkPeer;
+	to: NetworkPeer;
+	latent: boolean;
+	bytes: number;
+	timestamp: number;
+}
+
+/**
+ * Carries net events between the emulated server and clients. Messages are
+ * serialized on send like they would be on the wire and delivered in order
+ * on `flush`, so a handler never runs inside the call that triggered it.
+ */
+export class InMemoryNetwork {
+	// Every message sent, for assertions
+	public readonly history: NetworkMessage[] = [];
+	private queue: NetworkMessage[] = [];
+
+	constructor(
+		private readonly deliver: (message: NetworkMessage) => void,
+		private readonly now: () => number
+	) {}
+
+	public send(
+		event: string,
+		args: any[],
+		from: NetworkPeer,
+		to: NetworkPeer,
+		latent = false
+	): NetworkMessage {
+		let payload: any[];
+
+		try {
+			payload = structuredClone(args);
+		} catch (error) {
+			throw new Error(
+				`Arguments of net event '${event}' can not be serialized: ${error instanceof Error ? error.message : error}`
+			);
+		}
+
+		const message: NetworkMessage = {
+			event,
+			args: payload,
+			from,
+			to,
+			latent,
+			bytes: JSON.stringify(payload)?.length ?? 0,
+			timestamp: this.now(),
+		};
+
+		this.queue.push(message);
+		this.history.push(message);
+		return message;
+	}
+
+	public getPendingMessages(): number {
+		return this.queue.length;
+	}
+
+	/**
+	 * Delivers queued messages until none are left, including the ones sent by
+	 * the handlers of delivered messages
+	 */
+	public async flush(): Promise<void> {
+		while (this.queue.length > 0) {
+			const message = this.queue.shift()!;
+			this.deliver(message);
+			await nextMacrotask();
+		}
+	}
+
+	/**
+	 * Forgets queued messages to or from the given player
+	 */
+	public disconnect(playerId: number): void {
+		this.queue = this.queue.filter(
+			(message) => message.to !== playerId && message.from !== playerId
+		);
+	}
+
+	public clearHistory(): void {
+		this.history.length = 0;
+	}
+}
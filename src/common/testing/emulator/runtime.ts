@@ -0,0 +1,391 @@
+import type { CfxEmulator, EmulatedPlayer } from "./emulator";
+
+export type CfxSide = "server" | "client";
+
+export type EventHandler = (...args: any[]) => any;
+
+interface DispatchOptions {
+	// Network events only reach names registered as net safe
+	remote?: boolean;
+	// Value of the `source` global while the event is handled
+	source?: number | string;
+}
+
+/**
+ * One side of the emulated CFX runtime: the server, or the client of a single
+ * player. Holds the event listeners, ticks, exports and NUI state of that side
+ * and provides the natives which are installed as globals.
+ */
+export class CfxRuntime {
+	public readonly nuiCallbacks = new Set<string>();
+	public readonly nuiMessages: any[] = [];
+	public readonly nuiFocus = { hasFocus: false, hasCursor: false };
+
+	private readonly listeners = new Map<string, EventHandler[]>();
+	// Like CFX, a single net listener makes the whole event name net safe
+	private readonly netSafeEvents = new Set<string>();
+	private readonly ticks = new Map<number, EventHandler>();
+	private readonly runningTicks = new Set<number>();
+	private readonly exportsByResource = new Map<string, Map<string, Function>>();
+	private nextTickId = 1;
+
+	constructor(
+		public readonly side: CfxSide,
+		private readonly emulator: CfxEmulator,
+		public readonly player?: EmulatedPlayer
+	) {}
+
+	public addEventListener(
+		eventName: string,
+		handler: EventHandler,
+		netSafe = false
+	): void {
+		const listeners = this.listeners.get(eventName) || [];
+		listeners.push(handler);
+		this.listeners.set(eventName, listeners);
+
+		if (netSafe) {
+			this.netSafeEvents.add(eventName);
+		}
+	}
+
+	public removeEventListener(eventName: string, handler: EventHandler): void {
+		const listeners = this.listeners.get(eventName);
+		if (!listeners) {
+			return;
+		}
+
+		const remaining = listeners.filter((listener) => listener !== handler);
+
+		if (remaining.length === 0) {
+			this.listeners.delete(eventName);
+		} else {
+			this.listeners.set(eventName, remaining);
+		}
+	}
+
+	public on(eventName: string, handler: EventHandler): void {
+		this.addEventListener(eventName, handler, false);
+	}
+
+	public onNet(eventName: string, handler: EventHandler): void {
+		this.addEventListener(eventName, handler, true);
+	}
+
+	public getListenerCount(eventName?: string): number {
+		if (eventName) {
+			return this.listeners.get(eventName)?.length ?? 0;
+		}
+
+		let count = 0;
+		for (const listeners of this.listeners.values()) {
+			count += listeners.length;
+		}
+		return count;
+	}
+
+	/**
+	 * Triggers a local event on this side
+	 */
+	public emit(eventName: string, ...args: any[]): void {
+		this.dispatch(eventName, args);
+	}
+
+	/**
+	 * Sends a net event. The server passes the target player (-1 for everyone)
+	 * as the first argument, clients always send to the server.
+	 */
+	public emitNet(eventName: string, ...args: any[]): void {
+		this.sendNet(eventName, args, false);
+	}
+
+	public emitLatentNet(eventName: string, ...args: any[]): void {
+		this.sendNet(eventName, args, true);
+	}
+
+	/**
+	 * Calls every listener of the event. Network events reach all of them once
+	 * the name is net safe, and none otherwise. Errors of handlers are reported
+	 * to the emulator instead of being thrown at the caller.
+	 */
+	public dispatch(
+		eventName: string,
+		args: any[],
+		options: DispatchOptions = {}
+	): number {
+		if (options.remote && !this.netSafeEvents.has(eventName)) {
+			return 0;
+		}
+
+		const listeners = [...(this.listeners.get(eventName) || [])];
+
+		for (const listener of listeners) {
+			this.invoke(eventName, () => listener(...args), options.source);
+		}
+
+		return listeners.length;
+	}
+
+	public setTick(handler: EventHandler): number {
+		const id = this.nextTickId++;
+		this.ticks.set(id, handler);
+		return id;
+	}
+
+	public clearTick(id: number): void {
+		this.ticks.delete(id);
+		this.runningTicks.delete(id);
+	}
+
+	public getTickCount(): number {
+		return this.ticks.size;
+	}
+
+	/**
+	 * Runs every tick once. Like CFX, a tick returning a promise is not called
+	 * again before the promise settled.
+	 */
+	public runTicks(): void {
+		for (const [id, handler] of Array.from(this.ticks.entries())) {
+			if (this.runningTicks.has(id)) {
+				continue;
+			}
+
+			const result = this.invoke(`tick ${id}`, handler);
+
+			if (result && typeof result.then === "function") {
+				this.runningTicks.add(id);
+				result.finally(() => this.runningTicks.delete(id));
+			}
+		}
+	}
+
+	/**
+	 * Invokes a NUI callback registered through RegisterNuiCallbackType and
+	 * resolves with the value passed to its callback
+	 */
+	public triggerNuiCallback<T = any>(name: string, data: any): Promise<T> {
+		if (!this.nuiCallbacks.has(name)) {
+			return Promise.reject(
+				new Error(`NUI callback '${name}' is not registered`)
+			);
+		}
+
+		return new Promise<T>((resolve) => {
+			const called = this.dispatch(`__cfx_nui:${name}`, [
+				structuredClone(data),
+				(response: T) => resolve(response),
+			]);
+
+			if (called === 0) {
+				resolve(undefined as T);
+			}
+		});
+	}
+
+	public registerExport(
+		resource: string,
+		exportName: string,
+		handler: Function
+	): void {
+		const resourceExports =
+			this.exportsByResource.get(resource) || new Map<string, Function>();
+		resourceExports.set(exportName, handler);
+		this.exportsByResource.set(resource, resourceExports);
+	}
+
+	public getExport(resource: string, exportName: string): Function | undefined {
+		return this.exportsByResource.get(resource)?.get(exportName);
+	}
+
+	/**
+	 * The globals this side provides, installed by `CfxEmulator.install`
+	 */
+	public createNatives(): Record<string, any> {
+		const emulator = this.emulator;
+		const natives: Record<string, any> = {
+			IsDuplicityVersion: () => this.side === "server",
+			addEventListener: this.addEventListener.bind(this),
+			removeEventListener: this.removeEventListener.bind(this),
+			AddEventHandler: this.addEventListener.bind(this),
+			RemoveEventHandler: this.removeEventListener.bind(this),
+			on: this.on.bind(this),
+			onNet: this.onNet.bind(this),
+			emit: this.emit.bind(this),
+			TriggerEvent: this.emit.bind(this),
+			emitNet: this.emitNet.bind(this),
+			setTick: this.setTick.bind(this),
+			clearTick: this.clearTick.bind(this),
+			GetGameTimer: () => emulator.clock.now(),
+			GetCurrentResourceName: () => emulator.resourceName,
+			GetResourceState: (resource: string) =>
+				emulator.getResourceState(resource),
+			GetInvokingResource: (): string | null => null,
+			exports: this.createExports(),
+		};
+
+		if (this.side === "server") {
+			Object.assign(natives, {
+				TriggerClientEvent: this.emitNet.bind(this),
+				TriggerLatentClientEvent: (
+					eventName: string,
+					target: number | string,
+					_bps: number,
+					...args: any[]
+				) => this.emitLatentNet(eventName, target, ...args),
+				GetPlayers: () =>
+					emulator.getPlayers().map((player) => String(player.id)),
+				GetNumPlayerIndices: () => emulator.getPlayers().length,
+				GetPlayerFromIndex: (index: number) =>
+					String(emulator.getPlayers()[index]?.id ?? ""),
+				DoesPlayerExist: (source: number | string) =>
+					!!emulator.getPlayer(Number(source)),
+				GetPlayerName: (source: number | string) =>
+					emulator.getPlayer(Number(source))?.name ?? "",
+				GetPlayerIdentifiers: (source: number | string) => [
+					...(emulator.getPlayer(Number(source))?.identifiers ?? []),
+				],
+				GetNumPlayerIdentifiers: (source: number | string) =>
+					emulator.getPlayer(Number(source))?.identifiers.length ?? 0,
+				GetPlayerIdentifier: (source: number | string, index: number) =>
+					emulator.getPlayer(Number(source))?.identifiers[index] ?? "",
+				GetPlayerEndpoint: (source: number | string) =>
+					emulator.getPlayer(Number(source))?.endpoint ?? "",
+				GetPlayerPing: (source: number | string) =>
+					emulator.getPlayer(Number(source))?.ping ?? 0,
+				IsPlayerAceAllowed: (source: number | string, ace: string) =>
+					!!emulator.getPlayer(Number(source))?.aces.includes(ace),
+				DropPlayer: (source: number | string, reason: string) => {
+					emulator.dropPlayer(Number(source), reason).catch((error) => {
+						emulator.reportError("DropPlayer", error);
+					});
+				},
+			});
+		} else {
+			const player = this.player!;
+
+			Object.assign(natives, {
+				TriggerServerEvent: this.emitNet.bind(this),
+				TriggerLatentServerEvent: (
+					eventName: string,
+					_bps: number,
+					...args: any[]
+				) => this.emitLatentNet(eventName, ...args),
+				PlayerId: () => 0,
+				PlayerPedId: () => player.ped,
+				GetPlayerServerId: () => player.id,
+				GetPlayerName: () => player.name,
+				RegisterNuiCallbackType: (name: string) => this.nuiCallbacks.add(name),
+				SendNUIMessage: (data: any) => this.nuiMessages.push(data),
+				SendNuiMessage: (json: string) =>
+					this.nuiMessages.push(JSON.parse(json)),
+				SetNuiFocus: (hasFocus: boolean, hasCursor: boolean) => {
+					this.nuiFocus.hasFocus = hasFocus;
+					this.nuiFocus.hasCursor = hasCursor;
+				},
+			});
+		}
+
+		return natives;
+	}
+
+	private sendNet(eventName: string, args: any[], latent: boolean): void {
+		if (this.side === "client") {
+			this.emulator.network.send(
+				eventName,
+				args,
+				this.player!.id,
+				"server",
+				latent
+			);
+			return;
+		}
+
+		const [target, ...payload] = args;
+		const targets =
+			Number(target) === -1
+				? this.emulator.getPlayers()
+				: [this.emulator.getPlayer(Number(target))].filter(
+						(player) => !!player
+					);
+
+		for (const player of targets) {
+			this.emulator.network.send(
+				eventName,
+				payload,
+				"server",
+				player!.id,
+				latent
+			);
+		}
+	}
+
+	private invoke(
+		name: string,
+		call: () => any,
+		source: number | string = ""
+	): any {
+		const globals = globalThis as any;
+		const previousSource = globals.source;
+
+		if (this.side === "server") {
+			globals.source = source;
+		}
+
+		try {
+			const result = call();
+
+			if (result && typeof result.then === "function") {
+				return result.then(undefined, (error: unknown) =>
+					this.emulator.reportError(name, error)
+				);
+			}
+
+			return result;
+		} catch (error) {
+			this.emulator.reportError(name, error);
+			return undefined;
+		} finally {
+			if (this.side === "server") {
+				globals.source = previousSource;
+			}
+		}
+	}
+
+	/**
+	 * `exports(name, fn)` registers an export of the current resource,
+	 * `exports[resource][name]` returns the export of any resource
+	 */
+	private createExports(): any {
+		const register = (exportName: string, handler: Function) =>
+			this.registerExport(this.emulator.resourceName, exportName, handler);
+
+		return new Proxy(register, {
+			get: (target, resource) => {
+				if (typeof resource !== "string" || resource in target) {
+					return Reflect.get(target, resource);
+				}
+
+				return new Proxy(
+					{},
+					{
+						get: (_target, exportName) => {
+							if (typeof exportName !== "string") {
+								return undefined;
+							}
+
+							const handler = this.getExport(resource, exportName);
+							if (!handler) {
+								throw new Error(
+									`No such export ${exportName} in resource ${resource}`
+								);
+							}
+
+							return handler;
+						},
+					}
+				);
+			},
+		});
+	}
+}
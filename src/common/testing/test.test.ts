@@ -0,0 +1,169 @@
+import "reflect-metadata";
+import { afterEach, expect, test } from "bun:test";
+import { Inject, Injectable } from "../decorator/Injectable";
+import { Module } from "../decorator/Module";
+import { Provider } from "../decorator/Provider";
+import { LogLevel } from "../logger/log-level";
+import { PlayerScopeRegistry } from "../scope/player.scope.registry";
+import { CapturingLogger } from "./capturing.logger";
+import { CfxEmulator } from "./emulator/emulator";
+import { Test, TestingModule } from "./test";
+
+let testingModule: TestingModule;
+
+afterEach(async () => {
+	await testingModule?.close();
+});
+
+test("close restores the player scope resolver", async () => {
+	const resolver = () => "outer";
+	PlayerScopeRegistry.setResolver(resolver);
+
+	testingModule = await Test.createTestingModule({}).compile();
+	expect(PlayerScopeRegistry.getResolver()).not.toBe(resolver);
+
+	await testingModule.close();
+	expect(PlayerScopeRegistry.getResolver()).toBe(resolver);
+
+	PlayerScopeRegistry.setResolver(undefined);
+});
+
+test("a failed compile restores the player scope resolver", async () => {
+	const resolver = () => "outer";
+	PlayerScopeRegistry.setResolver(resolver);
+
+	@Provider()
+	class BrokenProvider {
+		onModuleInit() {
+			throw new Error("broken");
+		}
+	}
+
+	const compiled = Test.createTestingModule({
+		providers: [BrokenProvider],
+	}).compile();
+
+	await expect(compiled).rejects.toThrow("broken");
+	expect(PlayerScopeRegistry.getResolver()).toBe(resolver);
+
+	PlayerScopeRegistry.setResolver(undefined);
+});
+
+@Injectable()
+class PriceService {
+	price() {
+		return 10;
+	}
+}
+
+@Provider()
+class ShopProvider {
+	@Inject(PriceService)
+	public readonly prices: PriceService;
+}
+
+@Module({ services: [PriceService], exports: [PriceService] })
+class PriceModule {}
+
+@Module({ imports: [PriceModule], providers: [ShopProvider] })
+class ShopModule {}
+
+test("overrides a service with a value, a class or a factory", async () => {
+	class CheapPriceService {
+		price() {
+			return 2;
+		}
+	}
+
+	const overrides = [
+		(builder: ReturnType<typeof Test.createTestingModule>) =>
+			builder.overrideProvider(PriceService).useValue({ price: () => 1 }),
+		(builder: ReturnType<typeof Test.createTestingModule>) =>
+			builder.overrideProvider(PriceService).useClass(CheapPriceService),
+		(builder: ReturnType<typeof Test.createTestingModule>) =>
+			builder.overrideProvider(PriceService).useFactory(() => ({
+				price: () => 3,
+			})),
+	];
+
+	const prices: number[] = [];
+	for (const override of overrides) {
+		testingModule = await override(
+			Test.createTestingModule({ imports: [ShopModule] })
+		).compile();
+
+		const shop = testingModule.get<ShopProvider>(ShopProvider);
+		expect(shop.prices).toBe(testingModule.get(PriceService));
+		prices.push(shop.prices.price());
+
+		await testingModule.close();
+	}
+
+	expect(prices).toEqual([1, 2, 3]);
+});
+
+test("the capturing logger keeps the entries by level", () => {
+	const logger = new CapturingLogger();
+
+	logger.info("[shop] opened", 3);
+	logger.error("[shop] failed:", new TypeError("no stock"));
+
+	expect(logger.getLogs(LogLevel.Info).map((log) => log.message)).toEqual([
+		"[shop] opened 3",
+	]);
+	expect(logger.hasLog("TypeError: no stock", LogLevel.Error)).toBe(true);
+	expect(logger.hasLog(/opened \d/, LogLevel.Error)).toBe(false);
+	expect(logger.getLogs()[1].args[1]).toBeInstanceOf(TypeError);
+
+	logger.clear();
+	expect(logger.getLogs()).toEqual([]);
+});
+
+test("advanceTime fires the due timers of a fake clock", async () => {
+	const emulator = new CfxEmulator({ fakeTimers: true }).install("server");
+	const fired: string[] = [];
+
+	@Provider()
+	class ReminderProvider {
+		onApplicationBootstrap() {
+			setTimeout(() => fired.push("reminder"), 1000);
+		}
+	}
+
+	try {
+		testingModule = await Test.createTestingModule({
+			providers: [ReminderProvider],
+			emulator,
+		}).compile();
+
+		await testingModule.advanceTime(999);
+		expect(fired).toEqual([]);
+
+		await testingModule.advanceTime(1);
+		expect(fired).toEqual(["reminder"]);
+
+		await testingModule.close();
+	} finally {
+		emulator.uninstall();
+	}
+});
+
+test("call receives results sent in chunks", async () => {
+	const { Rpc } = await import("../decorator/Events/Rpc");
+	const { RpcServer } = await import("../events/ServerRpc");
+
+	@Provider()
+	class ReportProvider {
+		@Rpc(RpcServer.GetUnrelatedData)
+		getData(source: number, key: string) {
+			return key.repeat(40000);
+		}
+	}
+
+	testingModule = await Test.createTestingModule({
+		providers: [ReportProvider],
+	}).compile();
+
+	const result = await testingModule.call(RpcServer.GetUnrelatedData, "x");
+	expect(result).toHaveLength(40000);
+});
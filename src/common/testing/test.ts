@@ -0,0 +1,417 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Container } from "inversify";
+import { getInjectableClasses } from "../decorator/Injectable";
+import type { ModuleImport, ValueProvider } from "../decorator/Module";
+import { useGlobalContainer } from "../global";
+import type { OnceLoader } from "../loader/Events/once.loader";
+import type { ModuleLoader, ProviderOverride } from "../loader/module.loader";
+import { Logger } from "../logger/logger";
+import type { PlayerScope } from "../scope/player.scope";
+import type { RateLimiter } from "../security/rate.limiter";
+import { PlayerScopeRegistry } from "../scope/player.scope.registry";
+import { CapturingLogger } from "./capturing.logger";
+import { nextMacrotask } from "./emulator/clock";
+import { CfxEmulator, EmulatedPlayer } from "./emulator/emulator";
+import type { CfxSide } from "./emulator/runtime";
+
+export interface TestingModuleMetadata {
+	imports?: ModuleImport[];
+	providers?: (Function | ValueProvider)[];
+	// Side the emulator is installed as, if no emulator is given
+	side?: CfxSide;
+	// Installed emulator to use instead of a new one
+	emulator?: CfxEmulator;
+	// Print captured log entries
+	printLogs?: boolean;
+	// Real milliseconds `call` waits for a response
+	rpcTimeout?: number;
+}
+
+export class TestingModuleBuilder {
+	private readonly overrides = new Map<any, ProviderOverride>();
+
+	constructor(private readonly metadata: TestingModuleMetadata) {}
+
+	/**
+	 * Replaces a token in every module and in the container of the testing
+	 * module, e.g. `.overrideProvider(BankService).useValue(mock)`
+	 */
+	public overrideProvider(token: any) {
+		return {
+			useValue: (value: any): TestingModuleBuilder =>
+				this.addOverride(token, { useValue: value }),
+			useClass: (useClass: new (...args: any[]) => any): TestingModuleBuilder =>
+				this.addOverride(token, { useClass }),
+			useFactory: (factory: () => any): TestingModuleBuilder =>
+				this.addOverride(token, { useFactory: factory }),
+		};
+	}
+
+	/**
+	 * Builds an isolated container, loads the modules and runs their
+	 * lifecycle hooks. Installs a CFX emulator first unless one is given, so
+	 * the framework is imported only once the natives exist.
+	 */
+	public async compile(): Promise<TestingModule> {
+		const side = this.metadata.side ?? "server";
+		const ownsEmulator = !this.metadata.emulator;
+		const emulator = this.metadata.emulator ?? new CfxEmulator().install(side);
+
+		const [
+			{ Module },
+			{ bindProviderOverride, ModuleLoader },
+			{ OnceLoader },
+			{ OnceSharedEvents },
+			{ PlayerScope, PlayerScopeStorage },
+			{ RateLimiter },
+			{ ChainMiddlewareEventServerFactory },
+			{ ChainMiddlewareEventClientFactory },
+			{ ChainMiddlewareTickServerFactory },
+			{ ChainMiddlewareTickClientFactory },
+		] = await Promise.all([
+			import("../decorator/Module"),
+			import("../loader/module.loader"),
+			import("../loader/Events/once.loader"),
+			import("../events/Once"),
+			import("../scope/player.scope"),
+			import("../security/rate.limiter"),
+			import("../middleware/Events/event.server.middleware"),
+			import("../middleware/Events/event.client.middleware"),
+			import("../middleware/Tick/middleware.tick.server"),
+			import("../middleware/Tick/middleware.tick.client"),
+		]);
+
+		const container = new Container({
+			defaultScope: "Singleton",
+			autobind: true,
+		});
+		const logger = new CapturingLogger(this.metadata.printLogs);
+		const isServerSide = emulator.getLocalRuntime()?.side !== "client";
+
+		container.bind(Logger).toConstantValue(logger);
+		container
+			.bind(PlayerScopeStorage)
+			.toConstantValue(new AsyncLocalStorage<number>());
+		container
+			.bind("MiddlewareFactory")
+			.to(
+				isServerSide
+					? ChainMiddlewareEventServerFactory
+					: ChainMiddlewareEventClientFactory
+			)
+			.inSingletonScope();
+		container
+			.bind("MiddlewareTickFactory")
+			.to(
+				isServerSide
+					? ChainMiddlewareTickServerFactory
+					: ChainMiddlewareTickClientFactory
+			)
+			.inSingletonScope();
+
+		// Autobinding would make them singletons
+		for (const target of PlayerScopeRegistry.getClasses()) {
+			container
+				.bind(target)
+				.toDynamicValue(() => PlayerScopeRegistry.resolve(target))
+				.inTransientScope();
+		}
+
+		for (const [token, override] of this.overrides) {
+			bindProviderOverride(container, token, override);
+		}
+
+		// Module containers do not autobind, they resolve services from here
+		for (const target of getInjectableClasses()) {
+			if (!container.isBound(target)) {
+				container.bind(target).toSelf().inSingletonScope();
+			}
+		}
+
+		const restoreContainer = useGlobalContainer(container);
+		// The PlayerScope of the testing module replaces the static resolver
+		const previousResolver = PlayerScopeRegistry.getResolver();
+		const restoreResolver = () =>
+			PlayerScopeRegistry.setResolver(previousResolver);
+
+		try {
+			class TestingRootModule {}
+			Module({
+				name: "TestingRootModule",
+				imports: this.metadata.imports,
+				providers: this.metadata.providers,
+			})(TestingRootModule);
+
+			const moduleLoader = container.get(ModuleLoader);
+			for (const [token, override] of this.overrides) {
+				moduleLoader.overrideProvider(token, override);
+			}
+
+			const playerScope = container.get(PlayerScope);
+			const rateLimiter = container.get(RateLimiter);
+			if (isServerSide) {
+				playerScope.start();
+				rateLimiter.start();
+			}
+
+			const onceLoader = container.get(OnceLoader);
+
+			await moduleLoader.load(TestingRootModule);
+			await onceLoader.trigger(OnceSharedEvents.Start);
+			await moduleLoader.bootstrap();
+
+			return new TestingModule(
+				container,
+				moduleLoader,
+				onceLoader,
+				playerScope,
+				rateLimiter,
+				logger,
+				emulator,
+				ownsEmulator,
+				this.metadata.rpcTimeout ?? 5000,
+				restoreResolver
+			);
+		} catch (error) {
+			restoreResolver();
+			if (ownsEmulator) {
+				emulator.uninstall();
+			}
+			throw error;
+		} finally {
+			restoreContainer();
+		}
+	}
+
+	private addOverride(
+		token: any,
+		override: ProviderOverride
+	): TestingModuleBuilder {
+		this.overrides.set(token, override);
+		return this;
+	}
+}
+
+/**
+ * Loaded modules on an isolated container, with helpers driving them through
+ * the emulator
+ */
+export class TestingModule {
+	private defaultPlayer: EmulatedPlayer | undefined;
+	private nextCallId = 1;
+	private closed = false;
+
+	constructor(
+		public readonly container: Container,
+		private readonly moduleLoader: ModuleLoader,
+		private readonly onceLoader: OnceLoader,
+		private readonly playerScope: PlayerScope,
+		private readonly rateLimiter: RateLimiter,
+		public readonly logger: CapturingLogger,
+		public readonly emulator: CfxEmulator,
+		private readonly ownsEmulator: boolean,
+		private readonly rpcTimeout: number,
+		private readonly restoreResolver: () => void
+	) {}
+
+	/**
+	 * Resolves a token from the module declaring it, regardless of exports
+	 */
+	public get<T>(token: any): T {
+		return this.withContainer(() => this.moduleLoader.get<T>(token));
+	}
+
+	/**
+	 * The player sending net events on the server side, connected on first
+	 * use. On the client side this is the local player.
+	 */
+	public async getPlayer(): Promise<EmulatedPlayer> {
+		const localPlayer = this.emulator.getLocalRuntime()?.player;
+		if (localPlayer) {
+			return localPlayer;
+		}
+
+		if (!this.defaultPlayer || !this.defaultPlayer.connected) {
+			this.defaultPlayer = await this.emulator.connectPlayer({
+				name: "TestPlayer",
+			});
+		}
+
+		return this.defaultPlayer;
+	}
+
+	/**
+	 * Triggers a local event
+	 */
+	public async emit(eventName: string, ...args: any[]): Promise<void> {
+		this.getLocalRuntime().emit(eventName, ...args);
+		await this.settle();
+	}
+
+	/**
+	 * Sends a net event from the other side: from the test player on the
+	 * server, from the server on the client
+	 */
+	public async emitNet(eventName: string, ...args: any[]): Promise<void> {
+		const player = await this.getPlayer();
+
+		if (this.isServerSide()) {
+			player.emitNet(eventName, ...args);
+		} else {
+			this.emulator.server.emitNet(eventName, player.id, ...args);
+		}
+
+		await this.settle();
+	}
+
+	/**
+	 * Invokes an RPC the way the other side would and resolves with its result.
+	 * The other side runs no framework, so the chunks of large results are put
+	 * together by the ChunkedTransfer of this side.
+	 */
+	public async call<T = any>(method: string, ...params: any[]): Promise<T> {
+		const player = await this.getPlayer();
+		const id = `test_${this.nextCallId++}`;
+		const responseEvent = `${method}_response`;
+		const callData = JSON.stringify({
+			id,
+			method,
+			params,
+			timestamp: Date.now(),
+		});
+
+		const receiver = this.isServerSide() ? player.client : this.emulator.server;
+		let response: any;
+		const onResponse = (data: any) => {
+			if (data?.id === id) {
+				response = data;
+			}
+		};
+
+		const { ChunkedTransfer, TransferChunkEvent } =
+			await import("../transfer/chunked.transfer");
+		const forwardChunk = (chunk: any) =>
+			this.getLocalRuntime().emit(TransferChunkEvent, chunk);
+		const stopReceiving = this.get<InstanceType<typeof ChunkedTransfer>>(
+			ChunkedTransfer
+		).receive(responseEvent, {
+			onPayload: ([data]) => onResponse(data),
+		});
+
+		receiver.onNet(responseEvent, onResponse);
+		receiver.onNet(TransferChunkEvent, forwardChunk);
+
+		try {
+			if (this.isServerSide()) {
+				player.emitNet(method, callData);
+			} else {
+				this.emulator.server.emitNet(method, player.id, callData);
+			}
+
+			const deadline = Date.now() + this.rpcTimeout;
+			while (!response && Date.now() < deadline) {
+				await this.settle();
+			}
+		} finally {
+			receiver.removeEventListener(responseEvent, onResponse);
+			receiver.removeEventListener(TransferChunkEvent, forwardChunk);
+			stopReceiving();
+		}
+
+		if (!response) {
+			throw new Error(
+				`RPC '${method}' did not respond within ${this.rpcTimeout}ms`
+			);
+		}
+
+		if (!response.success) {
+			const { RpcError } = await import("../decorator/Events/Rpc");
+			throw new RpcError(
+				response.error?.code,
+				response.error?.message,
+				response.error?.details
+			);
+		}
+
+		return response.result;
+	}
+
+	/**
+	 * Runs the given number of frames, see `CfxEmulator.step`
+	 */
+	public async advanceTicks(frames = 1): Promise<void> {
+		await this.emulator.step(frames);
+	}
+
+	/**
+	 * Moves the emulator clock, firing due fake timers
+	 */
+	public async advanceTime(ms: number): Promise<void> {
+		await this.emulator.advance(ms);
+	}
+
+	/**
+	 * Runs the shutdown hooks, unloads every module, restores the player scope
+	 * resolver and uninstalls the emulator if the testing module installed it
+	 */
+	public async close(): Promise<void> {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+
+		const { OnceSharedEvents } = await import("../events/Once");
+
+		try {
+			await this.moduleLoader.beforeShutdown();
+			await this.onceLoader.trigger(OnceSharedEvents.Stop);
+			await this.moduleLoader.unload();
+			await this.playerScope.stop();
+			this.rateLimiter.stop();
+		} finally {
+			this.restoreResolver();
+			if (this.ownsEmulator) {
+				this.emulator.uninstall();
+			}
+		}
+	}
+
+	private isServerSide(): boolean {
+		return this.getLocalRuntime().side === "server";
+	}
+
+	private getLocalRuntime() {
+		const runtime = this.emulator.getLocalRuntime();
+		if (!runtime) {
+			throw new Error("The emulator of the testing module is not installed");
+		}
+		return runtime;
+	}
+
+	private async settle(): Promise<void> {
+		await this.emulator.flush();
+		await nextMacrotask();
+	}
+
+	private withContainer<T>(fn: () => T): T {
+		const restoreContainer = useGlobalContainer(this.container);
+
+		try {
+			return fn();
+		} finally {
+			restoreContainer();
+		}
+	}
+}
+
+export class Test {
+	/**
+	 * Starts building a testing module. The framework is only imported when
+	 * `compile` is called, after the emulator was installed.
+	 */
+	public static createTestingModule(
+		metadata: TestingModuleMetadata = {}
+	): TestingModuleBuilder {
+		return new TestingModuleBuilder(metadata);
+	}
+}
@@ -0,0 +1,466 @@
+import { isServer } from "../side";
+import { Inject, Injectable } from "../decorator/Injectable";
+import { Logger } from "../logger/logger";
+import { sleep } from "../utils";
+
+/**
+ * Carries the chunks of every transfer, in both directions
+ */
+export const TransferChunkEvent = "Eterna:transfer:chunk";
+
+export interface TransferOptions {
+	// Payloads with a longer JSON form are split into chunks of this length
+	chunkSize?: number;
+	// Bytes per second for the whole transfer, also passed to latent events
+	bandwidth?: number;
+	onProgress?: (progress: TransferProgress) => void;
+	// Sent along with every chunk, e.g. the id of an RPC call
+	tag?: string;
+}
+
+export type ChunkedTransferOptions = {
+	chunkSize?: number;
+	bandwidth?: number;
+	// Longest JSON payload accepted from the other side
+	maxSize?: number;
+	// Incomplete transfers are dropped after this many milliseconds
+	timeout?: number;
+	// Incomplete transfers a single player can have at once
+	maxPendingPerSource?: number;
+};
+
+export interface TransferProgress {
+	id: string;
+	name: string;
+	tag?: string;
+	chunks: number;
+	totalChunks: number;
+	// Characters of the JSON payload
+	transferred: number;
+	size: number;
+}
+
+export interface TransferReceiver {
+	onPayload: (args: any[], source?: number) => void;
+	onProgress?: (progress: TransferProgress, source?: number) => void;
+	onError?: (error: TransferIntegrityError, source?: number) => void;
+}
+
+export class TransferIntegrityError extends Error {
+	constructor(
+		public readonly transferId: string,
+		public readonly tag: string | undefined,
+		reason: string
+	) {
+		super(`Transfer ${transferId} failed the integrity check: ${reason}`);
+		this.name = "TransferIntegrityError";
+	}
+}
+
+interface TransferChunk {
+	id: string;
+	name: string;
+	tag?: string;
+	index: number;
+	total: number;
+	// Length and checksum of the whole payload
+	size: number;
+	checksum: number;
+	data: string;
+}
+
+interface PendingTransfer {
+	name: string;
+	tag?: string;
+	source?: number;
+	total: number;
+	size: number;
+	checksum: number;
+	chunks: (string | undefined)[];
+	received: number;
+	transferred: number;
+	expiresAt: number;
+}
+
+const crcTable = Array.from({ length: 256 }, (_, byte) => {
+	let crc = byte;
+	for (let bit = 0; bit < 8; bit++) {
+		crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+	}
+	return crc >>> 0;
+});
+
+/**
+ * CRC-32 over the UTF-16 code units, the same on the server and the clients
+ */
+export const checksum = (data: string): number => {
+	let crc = 0xffffffff;
+
+	for (let index = 0; index < data.length; index++) {
+		const code = data.charCodeAt(index);
+		crc = crcTable[(crc ^ code) & 0xff] ^ (crc >>> 8);
+		crc = crcTable[(crc ^ (code >>> 8)) & 0xff] ^ (crc >>> 8);
+	}
+
+	return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Sends net events too large for a single event as ordered chunks and puts
+ * them back together on the other side. Small payloads are sent as the plain
+ * net event. Chunked payloads go through JSON, unlike the msgpack of CFX.
+ */
+@Injectable()
+export class ChunkedTransfer {
+	private options: Required<ChunkedTransferOptions> = {
+		chunkSize: 16000,
+		bandwidth: 128000,
+		maxSize: 8 * 1024 * 1024,
+		timeout: 60000,
+		maxPendingPerSource: 4,
+	};
+	private readonly receivers = new Map<string, Set<TransferReceiver>>();
+	// Oldest first, by sender and transfer id
+	private readonly pending = new Map<string, PendingTransfer>();
+	private chunkListener: ((chunk: TransferChunk) => void) | undefined;
+	private nextId = 0;
+
+	@Inject(Logger)
+	private readonly logger: Logger;
+
+	public configure(options: ChunkedTransferOptions): void {
+		this.options = { ...this.options, ...options };
+	}
+
+	/**
+	 * Sends the net event to the target player, -1 for everyone, or to the
+	 * server when called on a client. Resolves once the last chunk is handed
+	 * to CFX, small payloads resolve right away.
+	 */
+	public send(
+		name: string,
+		target: number | undefined,
+		args: any[],
+		options: TransferOptions = {}
+	): Promise<void> {
+		const chunkSize = options.chunkSize ?? this.options.chunkSize;
+		let payload: string;
+
+		try {
+			payload = JSON.stringify(args);
+		} catch (error) {
+			// Not expressible in JSON, e.g. BigInt, so it can only go as is
+			this.trigger(name, target, args, false);
+			return Promise.resolve();
+		}
+
+		if (payload.length <= chunkSize) {
+			this.trigger(name, target, args, false);
+			return Promise.resolve();
+		}
+
+		return this.sendChunks(name, target, payload, chunkSize, options);
+	}
+
+	/**
+	 * Receives the chunked transfers of the event name. Returns a function
+	 * removing the receiver again.
+	 */
+	public receive(name: string, receiver: TransferReceiver): () => void {
+		const receivers = this.receivers.get(name) || new Set();
+		receivers.add(receiver);
+		this.receivers.set(name, receivers);
+		this.listen();
+
+		return () => {
+			receivers.delete(receiver);
+			if (receivers.size === 0 && this.receivers.get(name) === receivers) {
+				this.receivers.delete(name);
+			}
+			if (this.receivers.size === 0) {
+				this.stop();
+			}
+		};
+	}
+
+	/**
+	 * Removes every receiver and drops the incomplete transfers
+	 */
+	public stop(): void {
+		if (this.chunkListener) {
+			removeEventListener(TransferChunkEvent, this.chunkListener);
+			this.chunkListener = undefined;
+		}
+
+		this.receivers.clear();
+		this.pending.clear();
+	}
+
+	public getPendingCount(): number {
+		return this.pending.size;
+	}
+
+	private async sendChunks(
+		name: string,
+		target: number | undefined,
+		payload: string,
+		chunkSize: number,
+		options: TransferOptions
+	): Promise<void> {
+		const bandwidth = options.bandwidth ?? this.options.bandwidth;
+		const id = `${GetGameTimer().toString(36)}_${(this.nextId++).toString(36)}`;
+		const total = Math.ceil(payload.length / chunkSize);
+		const size = payload.length;
+		const payloadChecksum = checksum(payload);
+
+		for (let index = 0; index < total; index++) {
+			const data = payload.slice(index * chunkSize, (index + 1) * chunkSize);
+			const chunk: TransferChunk = {
+				id,
+				name,
+				tag: options.tag,
+				index,
+				total,
+				size,
+				checksum: payloadChecksum,
+				data,
+			};
+
+			this.trigger(TransferChunkEvent, target, [chunk], true, bandwidth);
+
+			options.onProgress?.({
+				id,
+				name,
+				tag: options.tag,
+				chunks: index + 1,
+				totalChunks: total,
+				transferred: Math.min((index + 1) * chunkSize, size),
+				size,
+			});
+
+			// Keeps the whole transfer within the bandwidth, not every chunk
+			if (index < total - 1) {
+				await sleep((data.length / bandwidth) * 1000);
+			}
+		}
+	}
+
+	/**
+	 * Latent events where the runtime has them, plain net events otherwise
+	 */
+	private trigger(
+		name: string,
+		target: number | undefined,
+		args: any[],
+		latent: boolean,
+		bandwidth: number = this.options.bandwidth
+	): void {
+		const natives = globalThis as any;
+
+		if (isServer) {
+			if (latent && typeof natives.TriggerLatentClientEvent === "function") {
+				TriggerLatentClientEvent(name, target ?? -1, bandwidth, ...args);
+			} else {
+				TriggerClientEvent(name, target ?? -1, ...args);
+			}
+		} else if (
+			latent &&
+			typeof natives.TriggerLatentServerEvent === "function"
+		) {
+			TriggerLatentServerEvent(name, bandwidth, ...args);
+		} else {
+			TriggerServerEvent(name, ...args);
+		}
+	}
+
+	private listen(): void {
+		if (this.chunkListener) {
+			return;
+		}
+
+		this.chunkListener = (chunk: TransferChunk) => {
+			// Read before anything else, clients always receive from the server
+			const source = isServer ? Number((globalThis as any).source) : undefined;
+
+			this.handleChunk(chunk, source);
+		};
+
+		addEventListener(TransferChunkEvent, this.chunkListener, true);
+	}
+
+	private handleChunk(chunk: TransferChunk, source?: number): void {
+		const receivers = this.receivers.get(chunk?.name);
+
+		if (!receivers || !this.isValidChunk(chunk)) {
+			this.logger.debug(
+				`[transfer] Dropped chunk of ${chunk?.name} from ${source ?? "server"}`
+			);
+			return;
+		}
+
+		this.pruneExpired();
+
+		const key = `${source ?? "server"}:${chunk.id}`;
+		let transfer = this.pending.get(key);
+
+		if (!transfer) {
+			if (!this.canStart(source)) {
+				this.logger.warn(
+					`[transfer] Too many transfers of ${source}, dropped ${chunk.name}`
+				);
+				return;
+			}
+
+			transfer = {
+				name: chunk.name,
+				tag: chunk.tag,
+				source,
+				total: chunk.total,
+				size: chunk.size,
+				checksum: chunk.checksum,
+				chunks: new Array(chunk.total),
+				received: 0,
+				transferred: 0,
+				expiresAt: GetGameTimer() + this.options.timeout,
+			};
+			this.pending.set(key, transfer);
+		}
+
+		if (
+			chunk.name !== transfer.name ||
+			chunk.total !== transfer.total ||
+			chunk.size !== transfer.size ||
+			chunk.checksum !== transfer.checksum
+		) {
+			this.fail(key, transfer, chunk.id, "chunks do not belong together");
+			return;
+		}
+
+		if (transfer.chunks[chunk.index] !== undefined) {
+			return;
+		}
+
+		transfer.chunks[chunk.index] = chunk.data;
+		transfer.received++;
+		transfer.transferred += chunk.data.length;
+
+		const progress: TransferProgress = {
+			id: chunk.id,
+			name: transfer.name,
+			tag: transfer.tag,
+			chunks: transfer.received,
+			totalChunks: transfer.total,
+			transferred: transfer.transferred,
+			size: transfer.size,
+		};
+
+		for (const receiver of receivers) {
+			receiver.onProgress?.(progress, source);
+		}
+
+		if (transfer.received < transfer.total) {
+			return;
+		}
+
+		this.pending.delete(key);
+		this.complete(chunk.id, transfer, receivers);
+	}
+
+	private complete(
+		id: string,
+		transfer: PendingTransfer,
+		receivers: Set<TransferReceiver>
+	): void {
+		const payload = transfer.chunks.join("");
+
+		if (payload.length !== transfer.size) {
+			this.fail(undefined, transfer, id, "length mismatch");
+			return;
+		}
+
+		if (checksum(payload) !== transfer.checksum) {
+			this.fail(undefined, transfer, id, "checksum mismatch");
+			return;
+		}
+
+		let args: any[];
+
+		try {
+			args = JSON.parse(payload);
+		} catch (error) {
+			this.fail(undefined, transfer, id, "payload is not valid JSON");
+			return;
+		}
+
+		for (const receiver of [...receivers]) {
+			receiver.onPayload(args, transfer.source);
+		}
+	}
+
+	private fail(
+		key: string | undefined,
+		transfer: PendingTransfer,
+		id: string,
+		reason: string
+	): void {
+		if (key) {
+			this.pending.delete(key);
+		}
+
+		const error = new TransferIntegrityError(id, transfer.tag, reason);
+		this.logger.warn(
+			`[transfer] ${error.message} (${transfer.name} from ${transfer.source ?? "server"})`
+		);
+
+		for (const receiver of this.receivers.get(transfer.name) || []) {
+			receiver.onError?.(error, transfer.source);
+		}
+	}
+
+	private isValidChunk(chunk: TransferChunk): boolean {
+		return (
+			typeof chunk.id === "string" &&
+			typeof chunk.data === "string" &&
+			typeof chunk.checksum === "number" &&
+			Number.isInteger(chunk.total) &&
+			Number.isInteger(chunk.index) &&
+			Number.isInteger(chunk.size) &&
+			chunk.index >= 0 &&
+			chunk.index < chunk.total &&
+			chunk.size > 0 &&
+			chunk.size <= this.options.maxSize &&
+			chunk.total <= chunk.size
+		);
+	}
+
+	private canStart(source?: number): boolean {
+		let count = 0;
+
+		for (const transfer of this.pending.values()) {
+			if (transfer.source === source) {
+				count++;
+			}
+		}
+
+		return count < this.options.maxPendingPerSource;
+	}
+
+	/**
+	 * Drops the expired transfers from the oldest on, stopping at the first
+	 * one still running
+	 */
+	private pruneExpired(): void {
+		const now = GetGameTimer();
+
+		for (const [key, transfer] of this.pending) {
+			if (transfer.expiresAt > now) {
+				break;
+			}
+
+			this.pending.delete(key);
+			this.logger.warn(
+				`[transfer] ${transfer.name} from ${transfer.source ?? "server"} timed out with ${transfer.received}/${transfer.total} chunks`
+			);
+		}
+	}
+}
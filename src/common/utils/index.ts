@@ -1,5 +1,5 @@
 import { createHash, randomBytes } from "crypto";
-import { isServer } from "../app";
+import { isServer } from "../side";
 
 // ===============================
 // STRING UTILITIES
@@ -231,6 +231,33 @@ export const exponentialBackoff = (
 	return sleep(delay);
 };
 
+/**
+ * Rejects if the promise does not settle within the given time
+ * @param promise Promise to wait for
+ * @param ms Timeout in milliseconds, no timeout if omitted or 0
+ * @param message Error message used when the timeout is reached
+ * @returns Promise that resolves with the result of the given promise
+ */
+export const withTimeout = <T>(
+	promise: Promise<T>,
+	ms?: number,
+	message: string = `Timed out after ${ms}ms`
+): Promise<T> => {
+	if (!ms) {
+		return promise;
+	}
+
+	let timeout: NodeJS.Timeout;
+
+	const timeoutPromise = new Promise<never>((_, reject) => {
+		timeout = setTimeout(() => reject(new Error(message)), ms);
+	});
+
+	return Promise.race([promise, timeoutPromise]).finally(() =>
+		clearTimeout(timeout)
+	);
+};
+
 /**
  * Retry function with exponential backoff
  * @param fn Function to retry
@@ -1,5 +1,10 @@
 import { DecoratorMetadataKey } from "../constants";
-import { ModuleMetadata } from "../decorator/Module";
+import {
+  DynamicModule,
+  ModuleImport,
+  ModuleMetadata,
+  ValueProvider,
+} from "../decorator/Module";
 
 export class ModuleUtils {
   static getModuleMetadata(moduleClass: any): ModuleMetadata | null {
@@ -12,6 +17,33 @@ export class ModuleUtils {
     return Reflect.hasMetadata(DecoratorMetadataKey.module, target);
   }
 
+  static isDynamicModule(target: any): target is DynamicModule {
+    return (
+      !!target &&
+      typeof target === "object" &&
+      typeof target.module === "function"
+    );
+  }
+
+  static isValueProvider(target: any): target is ValueProvider {
+    return (
+      !!target &&
+      typeof target === "object" &&
+      "provide" in target &&
+      "useValue" in target
+    );
+  }
+
+  static getModuleClass(moduleImport: ModuleImport): any {
+    return this.isDynamicModule(moduleImport)
+      ? moduleImport.module
+      : moduleImport;
+  }
+
+  static getTokenName(token: any): string {
+    return typeof token === "function" ? token.name : String(token);
+  }
+
   static validateModule(moduleClass: any): void {
     if (!this.isModule(moduleClass)) {
       throw new Error(
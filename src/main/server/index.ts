@@ -3,15 +3,27 @@ import { Application } from "../../common/app";
 import {
 	bindInstance,
 	bindService,
+	getGlobalContainer,
 	unloadGlobalContainer,
 } from "../../common/global";
 import { ChainMiddlewareEventServerFactory } from "../../common/middleware/Events/event.server.middleware";
 import { ChainMiddlewareTickServerFactory } from "../../common/middleware/Tick/middleware.tick.server";
 import { ServerProviderLoader } from "../../common/loader/Provider/provider.server.loader";
+import { EventRecorder } from "../../common/recording/event.recorder";
+import { FileRecordingSink } from "../../common/recording/file.sink";
+import { PlayerScopeStorage } from "../../common/scope/player.scope";
+import { AsyncLocalStorage } from "async_hooks";
 import { setMaxListeners } from "events";
 import { TestModule } from "./test/test.module";
 
 async function Bootstrap() {
+	// Keeps the player of a handler across its awaits, see PlayerScope
+	await bindInstance<PlayerScopeStorage>(
+		PlayerScopeStorage,
+		new AsyncLocalStorage<number>()
+	);
+	const recorder = getGlobalContainer().get(EventRecorder);
+
 	try {
 		await bindService<ChainMiddlewareEventServerFactory>(
 			"MiddlewareFactory",
@@ -28,6 +40,12 @@ async function Bootstrap() {
 			console.warn("Konnte setMaxListeners nicht setzen:", e);
 		}
 
+		// Records the incoming traffic for scripts/replay.ts
+		const recordingPath = GetConvar("eterna_record_events", "");
+		if (recordingPath) {
+			recorder.start(new FileRecordingSink(recordingPath));
+		}
+
 		const application = await Application.create(
 			ServerProviderLoader,
 			[TestModule],
@@ -39,6 +57,7 @@ async function Bootstrap() {
 
 		console.log("Application läuft... Warte auf Shutdown-Signal");
 		await application.waitForShutdown();
+		await recorder.stop();
 	} catch (error) {
 		console.error("Fehler beim Bootstrap:", error);
 	} finally {
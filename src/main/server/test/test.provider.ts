@@ -1,25 +1,29 @@
 import { Once } from "../../../common/decorator/Events/Once";
 import { OnEvent } from "../../../common/decorator/Events/OnEvent";
+import { Inject } from "../../../common/decorator/Injectable";
 import { Provider } from "../../../common/decorator/Provider";
 import { Interval, Tick } from "../../../common/decorator/Tick";
+import { EventEmitter } from "../../../common/event.emitter";
 import { OnceSharedEvents } from "../../../common/events/Once";
 import { EventsServer } from "../../../common/events/Server";
 
 @Provider()
 export class TestProvider {
+	@Inject(EventEmitter)
+	private readonly events: EventEmitter;
+
 	@Tick(Interval.EVERY_MINUTE, "test")
 	public async test() {
-		TriggerEvent("debug", "test");
+		this.events.emit(EventsServer.debug, "test");
 	}
 
-	@OnEvent(EventsServer.onResourceStart)
+	@OnEvent(EventsServer.onResourceStart, { networked: false })
 	public async onServerResourceStart(resourceName: string) {
 		console.log("onServerResourceStart", resourceName);
 	}
 
 	@OnEvent(EventsServer.debug, { networked: false })
 	public async onDebug(data: string) {
-		// data is not there, event though its give above
 		console.log("onDebug", data);
 	}
 }
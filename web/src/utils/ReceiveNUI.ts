@@ -1,9 +1,8 @@
 import { onMount, onDestroy } from "svelte";
-
-interface NuiMessage<T = unknown> {
-  action: string;
-  data: T;
-}
+import type {
+  NuiMessage,
+  NuiMessageMap,
+} from "../../../src/common/events/EventMap";
 
 /**
  * A function that manage events listeners for receiving data from the client scripts
@@ -11,20 +10,20 @@ interface NuiMessage<T = unknown> {
  * @param handler The callback function that will handle data relayed by this function
  *
  * @example
- * useNuiEvent<{VISIBILITY: true, wasVisible: 'something'}>('setVisible', (data) => {
- *   // whatever logic you want
+ * ReceiveNUI('setVisible', (visible) => {
+ *   // visible is typed through NuiMessageMap
  * })
  *
  **/
 
-export function ReceiveNUI<T = unknown>(
-  action: string,
-  handler: (data: T) => void
+export function ReceiveNUI<A extends keyof NuiMessageMap>(
+  action: A,
+  handler: (data: NuiMessageMap[A]) => void
 ) {
-  const eventListener = (event: MessageEvent<NuiMessage<T>>) => {
+  const eventListener = (event: MessageEvent<NuiMessage>) => {
     const { action: eventAction, data } = event.data;
 
-    eventAction === action && handler(data);
+    eventAction === action && handler(data as NuiMessageMap[A]);
   };
   onMount(() => window.addEventListener("message", eventListener));
   onDestroy(() => window.removeEventListener("message", eventListener));
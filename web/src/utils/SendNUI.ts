@@ -1,4 +1,5 @@
 import { BROWSER_MODE, RESOURCE_NAME } from '@store/stores'
+import type { NuiCallbackMap } from '../../../src/common/events/EventMap'
 
 let isBrowserMode: boolean = false;
 BROWSER_MODE.subscribe((value: boolean) => {
@@ -14,16 +15,17 @@ RESOURCE_NAME.subscribe((value: string) => {
 * @param eventName - The endpoint eventname to target
 * @param data - Data you wish to send in the NUI Callback
 *
-* @return returnData - A promise for the data sent back by the NuiCallbacks CB argument
+* @return returnData - A promise for the data sent back by the NuiCallbacks CB argument,
+* rejected if the handler failed
 */
 
-export async function SendNUI<T = any>(
-  eventName: string,
-  data: unknown = {},
-  debugReturn?: T
-): Promise<T> {
+export async function SendNUI<E extends keyof NuiCallbackMap>(
+  eventName: E,
+  data: NuiCallbackMap[E]["data"] = {} as NuiCallbackMap[E]["data"],
+  debugReturn?: NuiCallbackMap[E]["response"]
+): Promise<NuiCallbackMap[E]["response"]> {
   if ((isBrowserMode == true && debugReturn) || (isBrowserMode == true)) {
-    return Promise.resolve(debugReturn || {} as T)
+    return Promise.resolve(debugReturn || {} as NuiCallbackMap[E]["response"])
   }
   const options = {
     method: "post",
@@ -39,5 +41,13 @@ export async function SendNUI<T = any>(
 
 
     const resp: Response = await fetch(`https://${resourceName}/${eventName}`, options);
-    return await resp.json()
+    const result: any = await resp.json()
+
+    // The client replies { ok: false, error } if the handler threw or the
+    // call was rejected
+    if (result && result.ok === false && typeof result.error === "string") {
+      throw new Error(`NUI callback ${eventName} failed: ${result.error}`)
+    }
+
+    return result
 }
@@ -1,9 +1,5 @@
 import {isEnvBrowser} from "./misc";
-
-interface DebugEvent<T = any> {
-  action: string;
-  data: T;
-}
+import type { NuiMessage } from "../../../src/common/events/EventMap";
 
 /*
  * Emulates dispatching an event using SendNuiMessage in the lua scripts.
@@ -12,7 +8,7 @@ interface DebugEvent<T = any> {
  * @param events - The event you want to cover
  * @param timer - How long until it should trigger (ms)
 */
-export const debugData = <P>(events: DebugEvent<P>[], timer = 0): void => {
+export const debugData = (events: NuiMessage[], timer = 0): void => {
   if (isEnvBrowser()) {
     for (const event of events) {
       setTimeout(() => {